@@ -0,0 +1,232 @@
+import { PriceAlert, NewPriceAlert, LevelAlert, MoveAlert } from '../shared/types';
+import { normalizeSymbolId } from '../shared/symbols';
+import { recordPrice, getWindowRange, clearWindow, clearAllWindows } from './priceWindows';
+import { isFiniteNumber, isNonEmptyString, isRecord } from './ipc';
+
+// Longest rolling window a move alert may use
+export const MAX_MOVE_WINDOW_SECONDS = 4 * 60 * 60;
+
+let alerts: PriceAlert[] = [];
+// Copies of the alerts that replayed ticks are evaluated against, so a replay neither
+// disarms nor persists the real ones; null while prices are live
+let replayAlerts: PriceAlert[] | null = null;
+let onAlertsChange: (alerts: PriceAlert[]) => void = () => {}; // Persists the list
+const lastPrices = new Map<string, number>(); // Previous price per symbol, used to detect crossings
+
+// Alerts come from the settings store, which is told about every change to persist it
+export const initAlerts = (initial: PriceAlert[], onChange: (alerts: PriceAlert[]) => void): void => {
+  alerts = initial.map(alert => ({ ...alert }));
+  onAlertsChange = onChange;
+  console.log(`Loaded ${alerts.length} price alerts`);
+};
+
+const saveAlerts = (): void => {
+  onAlertsChange(alerts.map(alert => ({ ...alert })));
+};
+
+// The alerts prices are evaluated against and the windows show
+export const getAlerts = (): PriceAlert[] => replayAlerts || alerts;
+
+// Previous prices and move windows of one timeline must not meet prices of the other,
+// or the first tick after a switch is compared with a price that may be days old
+const resetPriceHistory = (): void => {
+  lastPrices.clear();
+  clearAllWindows();
+};
+
+export const startAlertReplay = (): void => {
+  replayAlerts = alerts.map(alert => ({ ...alert }));
+  resetPriceHistory();
+};
+
+export const stopAlertReplay = (): void => {
+  replayAlerts = null;
+  resetPriceHistory();
+};
+
+// New alerts come from the renderer; checks the fields addAlert relies on
+export const isValidNewAlert = (input: unknown): input is NewPriceAlert => {
+  if (!isRecord(input) || !isNonEmptyString(input.symbol)) {
+    return false;
+  }
+  if (input.type === 'MOVE') {
+    return (input.direction === 'UP' || input.direction === 'DOWN' || input.direction === 'BOTH') &&
+      isFiniteNumber(input.percent) && input.percent > 0 &&
+      isFiniteNumber(input.windowSeconds) && input.windowSeconds > 0 &&
+      isFiniteNumber(input.cooldownSeconds);
+  }
+  return input.type === 'LEVEL' &&
+    (input.direction === 'ABOVE' || input.direction === 'BELOW') &&
+    (input.mode === 'ONCE' || input.mode === 'REARM') &&
+    isFiniteNumber(input.price) && input.price > 0 &&
+    isFiniteNumber(input.hysteresisPercent);
+};
+
+export const addAlert = (input: NewPriceAlert): PriceAlert => {
+  const base = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    symbol: normalizeSymbolId(input.symbol),
+    createdAt: Date.now()
+  };
+
+  const alert: PriceAlert = input.type === 'MOVE'
+    ? {
+      ...base,
+      type: 'MOVE',
+      direction: input.direction,
+      percent: input.percent,
+      windowSeconds: Math.min(Math.max(1, input.windowSeconds), MAX_MOVE_WINDOW_SECONDS),
+      cooldownSeconds: Math.max(0, input.cooldownSeconds)
+    }
+    : {
+      ...base,
+      type: 'LEVEL',
+      direction: input.direction,
+      price: input.price,
+      mode: input.mode,
+      hysteresisPercent: Math.max(0, input.hysteresisPercent),
+      armed: true
+    };
+
+  alerts.push(alert);
+  replayAlerts?.push({ ...alert });
+  saveAlerts();
+  console.log(`Added ${alert.type} alert for ${alert.symbol}`);
+  return alert;
+};
+
+export const removeAlert = (id: string): boolean => {
+  const index = alerts.findIndex(a => a.id === id);
+  if (index === -1) {
+    return false;
+  }
+  alerts.splice(index, 1);
+  replayAlerts = replayAlerts && replayAlerts.filter(a => a.id !== id);
+  saveAlerts();
+  return true;
+};
+
+export const removeAlertsForSymbol = (symbol: string): void => {
+  const remaining = alerts.filter(a => a.symbol !== symbol);
+  replayAlerts = replayAlerts && replayAlerts.filter(a => a.symbol !== symbol);
+  if (remaining.length !== alerts.length) {
+    alerts = remaining;
+    saveAlerts();
+  }
+  lastPrices.delete(symbol);
+  clearWindow(symbol);
+};
+
+// A level alert fires when the price crosses its level (previous price on the other side),
+// so a level that is already exceeded when the alert is created doesn't fire instantly.
+// Returns whether the alert state changed.
+const evaluateLevelAlert = (alert: LevelAlert, previous: number, price: number, now: number): boolean => {
+  if (alert.armed) {
+    const crossed = alert.direction === 'ABOVE'
+      ? previous < alert.price && price >= alert.price
+      : previous > alert.price && price <= alert.price;
+
+    if (crossed) {
+      alert.armed = false;
+      alert.lastTriggeredAt = now;
+      return true;
+    }
+  } else if (alert.mode === 'REARM') {
+    // Re-arm only after the price has left the hysteresis band on the other side of the level
+    const band = alert.price * alert.hysteresisPercent / 100;
+    const rearm = alert.direction === 'ABOVE'
+      ? price <= alert.price - band
+      : price >= alert.price + band;
+
+    if (rearm) {
+      alert.armed = true;
+      return true;
+    }
+  }
+  return false;
+};
+
+// A move alert fires when the current price is at least `percent` away from the
+// lowest (UP) or highest (DOWN) price seen within its window, then stays quiet
+// for its cooldown so one move produces one notification.
+const evaluateMoveAlert = (alert: MoveAlert, price: number, now: number): boolean => {
+  if (alert.lastTriggeredAt && now - alert.lastTriggeredAt < alert.cooldownSeconds * 1000) {
+    return false;
+  }
+
+  const range = getWindowRange(alert.symbol, now - alert.windowSeconds * 1000);
+  if (!range) {
+    return false;
+  }
+
+  const upMove = (price - range.min) / range.min * 100;
+  const downMove = (range.max - price) / range.max * 100;
+  const movedUp = alert.direction !== 'DOWN' && upMove >= alert.percent;
+  const movedDown = alert.direction !== 'UP' && downMove >= alert.percent;
+
+  if (movedUp || movedDown) {
+    alert.lastTriggeredAt = now;
+    return true;
+  }
+  return false;
+};
+
+// Percent change that made a move alert fire, signed (for notifications)
+export const getMovePercent = (alert: MoveAlert, price: number, now: number = Date.now()): number => {
+  const range = getWindowRange(alert.symbol, now - alert.windowSeconds * 1000);
+  if (!range) {
+    return 0;
+  }
+  const upMove = (price - range.min) / range.min * 100;
+  const downMove = (range.max - price) / range.max * 100;
+  return upMove >= downMove ? upMove : -downMove;
+};
+
+// Check every alert of a symbol against a new price and return the ones that fired.
+// `now` is the tick time, so replayed ticks evaluate against their recorded timeline.
+export const evaluateAlerts = (symbol: string, price: number, now: number = Date.now()): PriceAlert[] => {
+  const previous = lastPrices.get(symbol);
+  lastPrices.set(symbol, price);
+
+  const symbolAlerts = getAlerts().filter(a => a.symbol === symbol);
+  const moveAlerts = symbolAlerts.filter((a): a is MoveAlert => a.type === 'MOVE');
+
+  // Only keep a rolling window for symbols that have move alerts
+  if (moveAlerts.length > 0) {
+    const retentionMs = Math.max(...moveAlerts.map(a => a.windowSeconds)) * 1000;
+    recordPrice(symbol, price, now, retentionMs);
+  } else {
+    clearWindow(symbol);
+  }
+
+  const triggered: PriceAlert[] = [];
+  let changed = false;
+
+  symbolAlerts.forEach(alert => {
+    if (alert.type === 'MOVE') {
+      if (evaluateMoveAlert(alert, price, now)) {
+        triggered.push(alert);
+        changed = true;
+      }
+      return;
+    }
+
+    if (previous === undefined) {
+      return;
+    }
+
+    const wasArmed = alert.armed;
+    if (evaluateLevelAlert(alert, previous, price, now)) {
+      changed = true;
+      if (wasArmed && !alert.armed) {
+        triggered.push(alert);
+      }
+    }
+  });
+
+  if (changed && !replayAlerts) {
+    saveAlerts();
+  }
+
+  return triggered;
+};
@@ -0,0 +1,117 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PriceHistoryPoint } from '../shared/types';
+import { mergeHistory } from '../shared/history';
+
+// On-disk kline cache, one file per symbol and interval, so charts render instantly on
+// startup and only the missing tail has to be downloaded.
+
+// Newest points kept per file; more than the longest timeframe needs
+const MAX_POINTS_PER_FILE = 1000;
+
+// Total cache size; files written least recently are evicted first
+const MAX_CACHE_BYTES = 20 * 1024 * 1024;
+
+// Compact on-disk point: [open time, timestamp, open, high, low, close, volume, quote volume]
+type CachedPoint = [number, number, number, number, number, number, number, number];
+
+let cacheDir = '';
+
+export const initHistoryCache = (dir: string): void => {
+  cacheDir = dir;
+  try {
+    fs.mkdirSync(cacheDir, { recursive: true });
+  } catch (error) {
+    console.error('Error creating history cache directory:', error);
+  }
+};
+
+const getCachePath = (symbolId: string, interval: string): string => {
+  // Symbol ids contain ':' which isn't allowed in Windows file names
+  return path.join(cacheDir, `${symbolId.replace(/[^A-Za-z0-9-]/g, '_')}_${interval}.json`);
+};
+
+const toCachedPoint = (point: PriceHistoryPoint): CachedPoint => [
+  point.open_time, point.timestamp, point.open, point.high, point.low, point.close, point.volume, point.quoteVolume
+];
+
+const fromCachedPoint = (point: CachedPoint): PriceHistoryPoint => ({
+  open_time: point[0],
+  timestamp: point[1],
+  price: point[5],
+  time: new Date(point[1]).toLocaleTimeString(),
+  open: point[2],
+  high: point[3],
+  low: point[4],
+  close: point[5],
+  volume: point[6],
+  quoteVolume: point[7]
+});
+
+export const readCachedHistory = (symbolId: string, interval: string): PriceHistoryPoint[] => {
+  try {
+    const cachePath = getCachePath(symbolId, interval);
+    if (fs.existsSync(cachePath)) {
+      const data = JSON.parse(fs.readFileSync(cachePath, 'utf-8'));
+      if (Array.isArray(data)) {
+        return data.filter(point => Array.isArray(point) && point.length === 8).map(fromCachedPoint);
+      }
+    }
+  } catch (error) {
+    console.error(`Error reading history cache for ${symbolId} ${interval}:`, error);
+  }
+  return [];
+};
+
+const enforceCacheLimit = (): void => {
+  try {
+    const files = fs.readdirSync(cacheDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => {
+        const filePath = path.join(cacheDir, file);
+        const stats = fs.statSync(filePath);
+        return { filePath, size: stats.size, modified: stats.mtimeMs };
+      })
+      .sort((a, b) => a.modified - b.modified);
+
+    let total = files.reduce((sum, file) => sum + file.size, 0);
+    for (const file of files) {
+      if (total <= MAX_CACHE_BYTES) {
+        break;
+      }
+      fs.unlinkSync(file.filePath);
+      total -= file.size;
+      console.log(`Evicted ${path.basename(file.filePath)} from history cache`);
+    }
+  } catch (error) {
+    console.error('Error enforcing history cache limit:', error);
+  }
+};
+
+// Merge fresh klines into the cached series and return the updated series
+export const updateCachedHistory = (
+  symbolId: string,
+  interval: string,
+  points: PriceHistoryPoint[]
+): PriceHistoryPoint[] => {
+  const merged = mergeHistory(readCachedHistory(symbolId, interval), points, MAX_POINTS_PER_FILE);
+  try {
+    fs.writeFileSync(getCachePath(symbolId, interval), JSON.stringify(merged.map(toCachedPoint)), 'utf-8');
+    enforceCacheLimit();
+  } catch (error) {
+    console.error(`Error writing history cache for ${symbolId} ${interval}:`, error);
+  }
+  return merged;
+};
+
+// Drop every interval cached for a symbol
+export const removeCachedHistory = (symbolId: string): void => {
+  try {
+    const prefix = path.basename(getCachePath(symbolId, '')).replace(/\.json$/, '');
+    fs.readdirSync(cacheDir)
+      .filter(file => file.startsWith(prefix))
+      .forEach(file => fs.unlinkSync(path.join(cacheDir, file)));
+  } catch (error) {
+    console.error(`Error removing history cache for ${symbolId}:`, error);
+  }
+};
@@ -0,0 +1,32 @@
+import { ipcMain, IpcMainEvent, IpcMainInvokeEvent } from 'electron';
+import { InvokeChannel, InvokeResult, SendChannel } from '../shared/types';
+
+// Typed registration of the handlers of the IPC contract in src/shared/types.ts. The
+// arguments come from a renderer and are typed unknown, so every handler has to check them.
+
+export const handle = <C extends InvokeChannel>(
+  channel: C,
+  handler: (event: IpcMainInvokeEvent, ...args: unknown[]) => InvokeResult<C> | Promise<InvokeResult<C>>
+): void => {
+  ipcMain.handle(channel, handler);
+};
+
+export const listen = <C extends SendChannel>(
+  channel: C,
+  listener: (event: IpcMainEvent, ...args: unknown[]) => void
+): void => {
+  ipcMain.on(channel, listener);
+};
+
+export const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+// Group ids are optional where the active group is the default
+export const isOptionalId = (value: unknown): value is string | null | undefined => {
+  return value === undefined || value === null || isNonEmptyString(value);
+};
+
+export const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+export const isRecord = (value: unknown): value is { [key: string]: unknown } => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
@@ -1,495 +1,882 @@
-import { app, BrowserWindow, ipcMain, Tray, Menu } from 'electron';
+import { app, BrowserWindow, Tray, Menu, MenuItemConstructorOptions, Notification, powerMonitor, dialog, screen, nativeTheme, WebContents } from 'electron';
 import * as path from 'path';
 import * as fs from 'fs';
-import { CoinPrice, PriceData, WindowMessage, MarketType } from '../shared/types';
+import { PriceData, MarketSymbol, PriceAlert, ChartSettings, IndicatorSettings, Holdings, PriceHistoryPoint, SymbolInfoMap, ConnectionState, ConnectionStates, KlineUpdate, KlineStreamRequest } from '../shared/types';
+import { TIMEFRAMES, pickSymbolColor } from '../shared/config';
+import { normalizeSymbolId, parseSymbolId, toSymbolId, getMarketType, getDisplayName } from '../shared/symbols';
+import { formatSymbolPrice } from '../shared/format';
+import { isValidHolding, isValidIndicatorSettings, validateSettings, validateSettingsUpdate, getWindowSymbols, normalizeName, SettingsUpdateResult, WatchlistGroup, WindowGroups } from '../shared/settings';
+import { isDarkColor, resolveTheme } from '../shared/themes';
+import { handle, listen, isNonEmptyString, isOptionalId, isFiniteNumber, isRecord } from './ipc';
+import { initAlerts, getAlerts, isValidNewAlert, addAlert, removeAlert, removeAlertsForSymbol, evaluateAlerts, getMovePercent, startAlertReplay, stopAlertReplay } from './alerts';
+import { getProviders, getProvider, MarketDataProvider } from './providers';
+import { createStreamConnection, StreamConnection } from './streamConnection';
+import { initHistoryCache, readCachedHistory, updateCachedHistory, removeCachedHistory } from './historyCache';
+import { initTickRecorder, isRecording, setRecording, recordTick, stopTickRecorder, exportTicksToCsv } from './tickRecorder';
+import { initSettingsStore, getSettings, updateSettings, getWindowSettings, updateWindowSettings } from './settingsStore';
+import {
+  createWidgetWindow, openNewWidgetWindow, closeWidgetWindow, getWidgetWindows, getWidgetWindowCount, getWindowId,
+  sendToWindow, sendToAllWindows, sendToOtherWindows, applyDisplaySettingsToAll, isAnyWidgetWindowVisible, showWidgetWindows,
+  hideWidgetWindows, fitWidgetWindowsToDisplays, prepareWidgetWindowsForQuit
+} from './widgetWindows';
+import { REPLAY_SPEEDS, loadReplayTicks, startReplay, stopReplay, setReplaySpeed, getReplayState } from './replay';
 
-let mainWindow: BrowserWindow;
 let tray: Tray;
-let wsSpotConnection: WebSocket | null = null;
-let wsPerpConnection: WebSocket | null = null;
-let isQuitting = false;
-let watchedSymbols: string[] = []; // Will be loaded from file or defaults
-let reconnectTimeout: NodeJS.Timeout | null = null;
-let perpReconnectTimeout: NodeJS.Timeout | null = null;
+const providerConnections = new Map<string, StreamConnection>(); // Live stream connection per provider id
+let connectionStates: ConnectionStates = {};
+const windowKlineStreams = new Map<string, KlineStreamRequest[]>(); // Kline streams each window charts
+const klineStreams = new Map<string, Set<string>>(); // Kline intervals streamed per symbol id, across windows
+// Number of windows watching each symbol; its ticker stream is subscribed while this is above 0
+const symbolRefCounts = new Map<string, number>();
+let chartSettings: ChartSettings = {}; // Per-symbol chart preferences
+let holdings: Holdings = {}; // Portfolio positions per symbol
+let symbolInfo: SymbolInfoMap = {}; // Exchange metadata (base/quote assets) of watched symbols
+const marketSymbolsCache = new Map<string, MarketSymbol[]>(); // exchangeInfo per provider id
 let requestId = 1; // For tracking subscribe/unsubscribe requests
 
 // File storage utilities
-const STORAGE_FILE = 'watched-symbols.json';
-const getStoragePath = (): string => {
-  return path.join(app.getPath('userData'), STORAGE_FILE);
+const SYMBOL_INFO_FILE = 'symbol-info.json';
+const HISTORY_CACHE_DIR = 'history-cache';
+const TICK_RECORDINGS_DIR = 'tick-recordings';
+const getSymbolInfoPath = (): string => {
+  return path.join(app.getPath('userData'), SYMBOL_INFO_FILE);
+};
+const getHistoryCacheDir = (): string => {
+  return path.join(app.getPath('userData'), HISTORY_CACHE_DIR);
+};
+const getTickRecordingsDir = (): string => {
+  return path.join(app.getPath('userData'), TICK_RECORDINGS_DIR);
+};
+
+// Symbols watched by any window
+const getWatchedSymbols = (): string[] => Array.from(symbolRefCounts.keys());
+
+// Symbols of every group of a window
+const getWindowWatchlist = (windowId: string): string[] => {
+  const window = getWindowSettings(windowId);
+  return window ? getWindowSymbols(window) : [];
+};
+
+const getWindowGroups = (windowId: string | undefined): WindowGroups | null => {
+  const window = windowId ? getWindowSettings(windowId) : undefined;
+  return window ? { groups: window.groups, activeGroupId: window.activeGroupId } : null;
+};
+
+// For symbol arguments from a renderer: anything but a symbol on the sending window's
+// watchlist is rejected
+const isWatchedSymbol = (sender: WebContents, symbolId: unknown): symbolId is string => {
+  const windowId = getWindowId(sender);
+  return !!windowId && isNonEmptyString(symbolId) && getWindowWatchlist(windowId).includes(normalizeSymbolId(symbolId));
+};
+
+// Returns true when the symbol wasn't watched by any window before
+const retainSymbol = (symbolId: string): boolean => {
+  const count = symbolRefCounts.get(symbolId) || 0;
+  symbolRefCounts.set(symbolId, count + 1);
+  return count === 0;
+};
+
+// Returns true when no window watches the symbol anymore
+const releaseSymbol = (symbolId: string): boolean => {
+  const count = (symbolRefCounts.get(symbolId) || 0) - 1;
+  if (count > 0) {
+    symbolRefCounts.set(symbolId, count);
+    return false;
+  }
+  symbolRefCounts.delete(symbolId);
+  return true;
+};
+
+// Native parts of the windows (scrollbars, color pickers, select menus) follow the lightness
+// of the theme; with the 'system' theme they follow the OS like the theme itself
+const applyNativeTheme = (): void => {
+  const { theme, customThemes } = getSettings();
+  if (theme === 'system') {
+    nativeTheme.themeSource = 'system';
+  } else {
+    nativeTheme.themeSource = isDarkColor(resolveTheme(theme, customThemes, true).colors.background) ? 'dark' : 'light';
+  }
+};
+
+// Give symbols without a color the first palette color no other symbol has, so a symbol
+// keeps its color when others are added, removed or moved. Returns whether any was given.
+const assignSymbolColors = (symbolIds: string[]): boolean => {
+  const colors = { ...getSettings().colors };
+  const missing = symbolIds.filter(symbolId => !colors[symbolId]);
+  missing.forEach(symbolId => {
+    colors[symbolId] = pickSymbolColor(Object.keys(colors).map(key => colors[key]));
+  });
+  if (missing.length > 0) {
+    updateSettings({ colors });
+  }
+  return missing.length > 0;
 };
 
-const loadWatchedSymbols = (): string[] => {
+const saveChartSettings = (): void => {
+  updateSettings({ chart: chartSettings });
+};
+
+const saveHoldings = (): void => {
+  updateSettings({ holdings });
+};
+
+const loadSymbolInfo = (): SymbolInfoMap => {
   try {
-    const storagePath = getStoragePath();
-    if (fs.existsSync(storagePath)) {
-      const data = fs.readFileSync(storagePath, 'utf-8');
-      const symbols = JSON.parse(data);
-      if (Array.isArray(symbols) && symbols.length > 0) {
-        console.log('Loaded watched symbols from file:', symbols);
-        return symbols;
+    const symbolInfoPath = getSymbolInfoPath();
+    if (fs.existsSync(symbolInfoPath)) {
+      const data = JSON.parse(fs.readFileSync(symbolInfoPath, 'utf-8'));
+      if (data && typeof data === 'object' && !Array.isArray(data)) {
+        return data;
       }
     }
   } catch (error) {
-    console.error('Error loading watched symbols:', error);
+    console.error('Error loading symbol info:', error);
   }
-  // Return defaults if file doesn't exist or is invalid
-  console.log('Using default symbols');
-  return ['BTCUSDT', 'ETHUSDT'];
+  return {};
 };
 
-const saveWatchedSymbols = (): void => {
+const saveSymbolInfo = (): void => {
   try {
-    const storagePath = getStoragePath();
-    const data = JSON.stringify(watchedSymbols, null, 2);
-    fs.writeFileSync(storagePath, data, 'utf-8');
-    console.log('Saved watched symbols to file:', watchedSymbols);
+    fs.writeFileSync(getSymbolInfoPath(), JSON.stringify(symbolInfo, null, 2), 'utf-8');
   } catch (error) {
-    console.error('Error saving watched symbols:', error);
+    console.error('Error saving symbol info:', error);
   }
 };
 
-// Helper functions for market type detection
-const getMarketType = (symbol: string): MarketType => {
-  // Check if symbol ends with PERP (e.g., BTCUSDTPERP or BTCUSDT_PERP)
-  return symbol.includes('PERP') ? 'PERP' : 'SPOT';
+// Symbol list of a provider, fetched once per session
+const getMarketSymbols = async (provider: MarketDataProvider): Promise<MarketSymbol[]> => {
+  const cached = marketSymbolsCache.get(provider.id);
+  if (cached) {
+    return cached;
+  }
+  const symbols = await provider.fetchSymbols();
+  marketSymbolsCache.set(provider.id, symbols);
+  return symbols;
 };
 
-const normalizeSymbol = (symbol: string): string => {
-  // Normalize symbol format (remove underscores, uppercase)
-  return symbol.replace(/_/g, '').toUpperCase();
+// Whether the exchange lists a symbol; a symbol added by a renderer has to be in its list
+const isListedSymbol = async (symbolId: string): Promise<boolean> => {
+  const provider = getProvider(parseSymbolId(symbolId).providerId);
+  if (!provider) {
+    return false;
+  }
+  try {
+    return (await getMarketSymbols(provider)).some(symbol => symbol.id === symbolId);
+  } catch (error) {
+    console.error(`Error fetching ${provider.name} symbols:`, error);
+    return false;
+  }
 };
 
-const getBaseAsset = (symbol: string): string => {
-  // Extract base asset from full symbol
-  const normalized = normalizeSymbol(symbol);
-  if (normalized.includes('PERP')) {
-    return normalized.replace('USDTPERP', '').replace('PERP', '');
+// Look up base/quote assets and tick size for watched symbols that don't have them yet
+// (newly added symbols and symbols saved by older versions)
+const resolveSymbolInfo = async (): Promise<void> => {
+  const missing = getWatchedSymbols().filter(symbol => !symbolInfo[symbol] || symbolInfo[symbol].pricePrecision === undefined);
+  if (missing.length === 0) {
+    return;
   }
-  return normalized.replace('USDT', '');
-};
 
-const getWebSocketEndpoint = (marketType: MarketType): string => {
-  return marketType === 'PERP'
-    ? 'wss://fstream.binance.com/ws'
-    : 'wss://stream.binance.com:9443/ws';
+  const providerIds = Array.from(new Set(missing.map(symbol => parseSymbolId(symbol).providerId)));
+  let changed = false;
+
+  for (const providerId of providerIds) {
+    const provider = getProvider(providerId);
+    if (!provider) {
+      continue;
+    }
+    try {
+      const symbols = await getMarketSymbols(provider);
+      symbols
+        .filter(symbol => missing.includes(symbol.id))
+        .forEach(symbol => {
+          symbolInfo[symbol.id] = symbol;
+          changed = true;
+        });
+    } catch (error) {
+      console.error(`Error resolving ${provider.name} symbol info:`, error);
+    }
+  }
+
+  if (changed) {
+    saveSymbolInfo();
+    refreshTrayMenu();
+    sendToAllWindows('symbol-info-updated', symbolInfo);
+  }
 };
 
-const getStreamName = (symbol: string): string => {
-  const normalized = normalizeSymbol(symbol);
-  const marketType = getMarketType(symbol);
+const formatWindow = (seconds: number): string => {
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+};
 
-  if (marketType === 'PERP') {
-    // Binance Futures uses lowercase symbol WITHOUT 'PERP' suffix
-    // Stream format: btcusdt@ticker (NOT btcusdtperp@ticker)
-    const base = normalized.replace('PERP', '').replace('USDT', '').toLowerCase();
-    return `${base}usdt@ticker`;
+const notifyAlert = (alert: PriceAlert, price: string, timestamp: number): void => {
+  const info = symbolInfo[alert.symbol];
+  const displayName = getDisplayName(alert.symbol, info) + (getMarketType(alert.symbol) === 'PERP' ? ' PERP' : '');
+  let title: string;
+  if (alert.type === 'MOVE') {
+    const change = getMovePercent(alert, parseFloat(price), timestamp);
+    title = `${displayName} ${change >= 0 ? '+' : ''}${change.toFixed(2)}% in ${formatWindow(alert.windowSeconds)}`;
   } else {
-    // Spot stream format: btcusdt@ticker
-    return `${normalized.toLowerCase()}@ticker`;
-  }
-};
-
-const createWindow = (): void => {
-  const iconPath = path.join(__dirname, '..', 'src', 'assets', 'icon.png');
-
-  mainWindow = new BrowserWindow({
-    width: 200,
-    height: 150,
-    frame: false,
-    resizable: true,
-    alwaysOnTop: true,
-    skipTaskbar: true,
-    transparent: true,
-    minWidth: 200,
-    minHeight: 150,
-    title: 'CoinWidget',
-    icon: iconPath,
-    webPreferences: {
-      nodeIntegration: true,
-      contextIsolation: false
-    }
-  });
+    title = `${displayName} ${alert.direction === 'ABOVE' ? 'above' : 'below'} ${formatSymbolPrice(alert.price, info)}`;
+  }
+  const body = `${parseSymbolId(alert.symbol).symbol} is trading at ${formatSymbolPrice(parseFloat(price), info)}`;
 
-  
-  mainWindow.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
-  mainWindow.setFullScreenable(false);
-  // mainWindow.moveTop();
+  console.log(`Alert triggered: ${title} (${body})`);
 
-  const isDev = process.env.NODE_ENV === 'development';
+  if (Notification.isSupported()) {
+    new Notification({ title, body }).show();
+  }
 
-  mainWindow.loadFile(path.join(__dirname, 'index.html'));
+  // Balloons are only available on Windows
+  if (tray && process.platform === 'win32') {
+    tray.displayBalloon({ title, content: body });
+  }
 
-  mainWindow.setPosition(50, 50);
+  sendToAllWindows('alerts-updated', getAlerts());
+};
 
-  // Ensure window stays on top even when losing focus
-  mainWindow.on('blur', () => {
-    if (mainWindow && !mainWindow.isDestroyed()) {
-      mainWindow.setAlwaysOnTop(true, 'screen-saver');
-    }
-  });
+const sendReplayState = (): void => {
+  refreshTrayMenu();
+  sendToAllWindows('replay-state', getReplayState());
+};
+
+// Back to the real alerts, as they were before the replay
+const endAlertReplay = (): void => {
+  stopAlertReplay();
+  sendToAllWindows('alerts-updated', getAlerts());
+};
 
-  mainWindow.on('close', (event: any) => {
-    if (!isQuitting) {
-      event.preventDefault();
-      mainWindow.hide();
+// Feed recorded ticks (JSONL files or directories of them) through the live tick path
+// instead of the provider streams
+const startReplayMode = async (paths: string[]): Promise<void> => {
+  const ticks = await loadReplayTicks(paths);
+  if (ticks.length === 0) {
+    console.error('No ticks to replay in', paths);
+    dialog.showErrorBox('Replay', 'The selected files contain no recorded ticks.');
+    if (providerConnections.size === 0) {
+      connectToProviders();
     }
+    return;
+  }
+
+  closeProviderConnections();
+  startAlertReplay();
+  startReplay(ticks, publishPriceData, () => {
+    endAlertReplay();
+    sendReplayState();
+    connectToProviders();
   });
+  sendReplayState();
 };
 
-const createTray = (): void => {
-  const { nativeImage } = require('electron');
+const stopReplayMode = (): void => {
+  if (!getReplayState().active) {
+    return;
+  }
+  stopReplay();
+  endAlertReplay();
+  sendReplayState();
+  connectToProviders();
+};
 
-  // Use the 32x32 PNG icon for better tray quality
-  const iconPath = path.join(__dirname, '..', 'src', 'assets', 'icon-32.png');
-  let trayImage;
+const chooseReplayFiles = async (): Promise<void> => {
+  const result = await dialog.showOpenDialog({
+    title: 'Replay Ticks',
+    defaultPath: getTickRecordingsDir(),
+    filters: [{ name: 'Tick recordings', extensions: ['jsonl'] }],
+    properties: ['openFile', 'multiSelections']
+  });
+  if (!result.canceled && result.filePaths.length > 0) {
+    await startReplayMode(result.filePaths);
+  }
+};
+
+// Time ranges offered when exporting recorded ticks
+const EXPORT_RANGES = [
+  { label: 'Last Hour', ms: 60 * 60 * 1000 },
+  { label: 'Last 24 Hours', ms: 24 * 60 * 60 * 1000 },
+  { label: 'Last 7 Days', ms: 7 * 24 * 60 * 60 * 1000 },
+  { label: 'Last 30 Days', ms: 30 * 24 * 60 * 60 * 1000 }
+];
+
+const exportTicks = async (symbolId: string, rangeMs: number): Promise<void> => {
+  const to = Date.now();
+  const from = to - rangeMs;
+  const { symbol } = parseSymbolId(symbolId);
+
+  const result = await dialog.showSaveDialog({
+    title: `Export ${symbol} ticks`,
+    defaultPath: path.join(app.getPath('downloads'), `${symbol}-ticks-${new Date(to).toISOString().slice(0, 10)}.csv`),
+    filters: [{ name: 'CSV', extensions: ['csv'] }]
+  });
+  if (result.canceled || !result.filePath) {
+    return;
+  }
 
   try {
-    trayImage = nativeImage.createFromPath(iconPath);
+    const count = await exportTicksToCsv(symbolId, from, to, result.filePath);
+    console.log(`✓ Exported ${count} ticks of ${symbolId} to ${result.filePath}`);
+    if (Notification.isSupported()) {
+      new Notification({ title: 'Tick export finished', body: `${count} ${symbol} ticks written to ${path.basename(result.filePath)}` }).show();
+    }
   } catch (error) {
-    console.log('Could not load tray icon, using fallback');
-    // Fallback: create simple colored square
-    trayImage = nativeImage.createEmpty();
-    trayImage.addRepresentation({
-      scaleFactor: 1.0,
-      width: 16,
-      height: 16,
-      buffer: Buffer.alloc(16 * 16 * 4, 0x80) // Gray square
-    });
+    console.error('Error exporting ticks:', error);
+    dialog.showErrorBox('Tick export failed', `Couldn't export to ${result.filePath}: ${error instanceof Error ? error.message : String(error)}`);
   }
+};
 
-  tray = new Tray(trayImage);
-
-  const contextMenu = Menu.buildFromTemplate([
+const buildTrayMenu = (): Menu => {
+  const template: MenuItemConstructorOptions[] = [
     {
       label: 'Show Widget',
       click: () => {
-        mainWindow.show();
-        mainWindow.focus();
+        showWidgetWindows();
       }
     },
     {
       label: 'Hide Widget',
       click: () => {
-        mainWindow.hide();
+        hideWidgetWindows();
+      }
+    },
+    {
+      label: 'New Widget Window',
+      click: () => {
+        openWindowWithDefaultSymbols();
+      }
+    },
+    {
+      label: 'Settings…',
+      click: () => {
+        // Opens in the first window; display settings apply to every window
+        showWidgetWindows();
+        sendToWindow(getSettings().windows[0].id, 'open-settings');
       }
     },
     { type: 'separator' },
+    {
+      label: 'Record Ticks',
+      type: 'checkbox',
+      checked: isRecording(),
+      click: (item) => {
+        setRecording(item.checked);
+        updateSettings({ tickRecording: isRecording() });
+      }
+    },
+    {
+      label: 'Export Ticks to CSV',
+      enabled: getWatchedSymbols().length > 0,
+      submenu: getWatchedSymbols().map(symbolId => ({
+        label: `${getDisplayName(symbolId, symbolInfo[symbolId])}${getMarketType(symbolId) === 'PERP' ? ' PERP' : ''} (${parseSymbolId(symbolId).symbol})`,
+        submenu: EXPORT_RANGES.map(range => ({
+          label: range.label,
+          click: () => {
+            exportTicks(symbolId, range.ms);
+          }
+        }))
+      }))
+    },
+    {
+      label: 'Replay',
+      submenu: [
+        {
+          label: 'Replay Recorded Ticks…',
+          click: () => {
+            chooseReplayFiles();
+          }
+        },
+        {
+          label: 'Stop Replay',
+          enabled: getReplayState().active,
+          click: () => stopReplayMode()
+        },
+        { type: 'separator' },
+        ...REPLAY_SPEEDS.map((speed): MenuItemConstructorOptions => ({
+          label: `${speed}x Speed`,
+          type: 'radio',
+          checked: getReplayState().speed === speed,
+          click: () => {
+            setReplaySpeed(speed);
+            sendReplayState();
+          }
+        }))
+      ]
+    },
+    { type: 'separator' },
     {
       label: 'Exit',
       click: () => {
-        isQuitting = true;
+        quitApp();
+      }
+    }
+  ];
+  return Menu.buildFromTemplate(template);
+};
 
-        // Clean up WebSocket connections
-        if (wsSpotConnection && wsSpotConnection.readyState === WebSocket.OPEN) {
-          wsSpotConnection.close(1000, 'App closing');
-        }
-        wsSpotConnection = null;
+const quitApp = (): void => {
+  prepareWidgetWindowsForQuit();
+  closeProviderConnections();
+  stopTickRecorder();
+  app.quit();
+};
 
-        if (wsPerpConnection && wsPerpConnection.readyState === WebSocket.OPEN) {
-          wsPerpConnection.close(1000, 'App closing');
-        }
-        wsPerpConnection = null;
+// The export submenu lists the watched symbols
+const refreshTrayMenu = (): void => {
+  if (tray && !tray.isDestroyed()) {
+    tray.setContextMenu(buildTrayMenu());
+  }
+};
 
-        // Clear reconnection timeouts
-        if (reconnectTimeout) {
-          clearTimeout(reconnectTimeout);
-          reconnectTimeout = null;
-        }
+const createTray = (): void => {
+  const { nativeImage } = require('electron');
 
-        if (perpReconnectTimeout) {
-          clearTimeout(perpReconnectTimeout);
-          perpReconnectTimeout = null;
-        }
+  // Use the 32x32 PNG icon for better tray quality
+  const iconPath = path.join(__dirname, '..', 'src', 'assets', 'icon-32.png');
+  let trayImage;
 
-        app.quit();
-      }
-    }
-  ]);
+  try {
+    trayImage = nativeImage.createFromPath(iconPath);
+  } catch (error) {
+    console.log('Could not load tray icon, using fallback');
+    // Fallback: create simple colored square
+    trayImage = nativeImage.createEmpty();
+    trayImage.addRepresentation({
+      scaleFactor: 1.0,
+      width: 16,
+      height: 16,
+      buffer: Buffer.alloc(16 * 16 * 4, 0x80) // Gray square
+    });
+  }
+
+  tray = new Tray(trayImage);
 
-  tray.setContextMenu(contextMenu);
+  tray.setContextMenu(buildTrayMenu());
   tray.setToolTip('CoinWidget');
 
   // Double click to show/hide
   tray.on('double-click', () => {
-    if (mainWindow.isVisible()) {
-      mainWindow.hide();
+    if (isAnyWidgetWindowVisible()) {
+      hideWidgetWindows();
     } else {
-      mainWindow.show();
-      mainWindow.focus();
+      showWidgetWindows();
     }
   });
 };
 
-const connectToBinance = (): void => {
-  console.log('Setting up WebSocket connections for symbols:', watchedSymbols);
-
-  // Separate symbols by market type
-  const spotSymbols = watchedSymbols.filter(s => getMarketType(s) === 'SPOT');
-  const perpSymbols = watchedSymbols.filter(s => getMarketType(s) === 'PERP');
+// Exchange symbols currently watched on a provider
+const getProviderSymbols = (providerId: string): string[] => {
+  return getWatchedSymbols()
+    .map(parseSymbolId)
+    .filter(s => s.providerId === providerId)
+    .map(s => s.symbol);
+};
 
-  // Connect to spot WebSocket if we have spot symbols
-  if (spotSymbols.length > 0) {
-    connectToSpotWebSocket(spotSymbols);
+const connectToProviders = (): void => {
+  // Replay feeds the ticks instead; live streams resume when it ends
+  if (getReplayState().active) {
+    return;
   }
 
-  // Connect to perpetual futures WebSocket if we have perp symbols
-  if (perpSymbols.length > 0) {
-    connectToPerpWebSocket(perpSymbols);
-  }
-};
+  console.log('Setting up WebSocket connections for symbols:', getWatchedSymbols());
 
-const connectToSpotWebSocket = (symbols: string[]): void => {
-  // Close existing connection if any
-  if (wsSpotConnection) {
-    if (wsSpotConnection.readyState === WebSocket.OPEN) {
-      wsSpotConnection.close(1000, 'Reconnecting with new symbol list');
+  // One stream connection per provider that has watched symbols
+  getProviders().forEach(provider => {
+    if (getProviderSymbols(provider.id).length === 0) {
+      return;
     }
-    wsSpotConnection = null;
-  }
+    const existing = providerConnections.get(provider.id);
+    if (existing) {
+      existing.reconnect();
+    } else {
+      connectToProvider(provider);
+    }
+  });
+};
 
-  // Clear existing reconnection timeout
-  if (reconnectTimeout) {
-    clearTimeout(reconnectTimeout);
-    reconnectTimeout = null;
+// Keep the renderers' connection badges in sync
+const sendConnectionStates = (): void => {
+  sendToAllWindows('connection-state', connectionStates);
+};
+
+// null removes a provider that no longer streams
+const setConnectionState = (providerId: string, state: ConnectionState | null): void => {
+  connectionStates = { ...connectionStates };
+  if (state) {
+    connectionStates[providerId] = state;
+  } else {
+    delete connectionStates[providerId];
   }
+  sendConnectionStates();
+};
 
-  console.log('Connecting to Binance Spot WebSocket stream...');
-  wsSpotConnection = new WebSocket(getWebSocketEndpoint('SPOT'));
+const closeProviderConnections = (): void => {
+  // Clean up WebSocket connections and their reconnect timers
+  providerConnections.forEach(connection => connection.close());
+  providerConnections.clear();
+  connectionStates = {};
+  sendConnectionStates();
+};
 
-  wsSpotConnection.onopen = () => {
-    console.log('✓ Connected to Binance Spot WebSocket stream');
+const connectToProvider = (provider: MarketDataProvider): void => {
+  setConnectionState(provider.id, 'connecting');
+
+  const connection = createStreamConnection({
+    name: provider.name,
+    getUrl: () => provider.getStreamUrl(),
+    onOpen: (reconnected) => {
+      // Subscribe to all current symbols
+      const symbols = getProviderSymbols(provider.id);
+      if (symbols.length > 0) {
+        subscribeToSymbols(provider, symbols);
+      }
+      klineStreams.forEach((intervals, symbolId) => {
+        if (parseSymbolId(symbolId).providerId === provider.id) {
+          intervals.forEach(interval => subscribeToKlines(symbolId, interval));
+        }
+      });
 
-    // Subscribe to all current symbols
-    if (symbols.length > 0) {
-      subscribeToSymbols(symbols, 'SPOT');
+      // Ticks were missed while disconnected; let the renderers backfill their charts
+      if (reconnected) {
+        const symbolIds = symbols.map(symbol => toSymbolId(provider.id, symbol));
+        getSettings().windows.forEach(window => {
+          const missed = symbolIds.filter(symbolId => getWindowSymbols(window).includes(symbolId));
+          if (missed.length > 0) {
+            sendToWindow(window.id, 'history-gap', missed);
+          }
+        });
+      }
+    },
+    onMessage: (data) => handleWebSocketMessage(data, provider),
+    onStateChange: (state) => {
+      if (providerConnections.get(provider.id) === connection) {
+        setConnectionState(provider.id, state);
+      }
     }
+  });
+  providerConnections.set(provider.id, connection);
+};
 
-    // Clear any pending reconnection timeout
-    if (reconnectTimeout) {
-      clearTimeout(reconnectTimeout);
-      reconnectTimeout = null;
+// Deliver a normalized tick to the windows watching its symbol and to the alert engine
+const publishPriceData = (priceData: PriceData): void => {
+  getSettings().windows.forEach(window => {
+    if (getWindowSymbols(window).includes(priceData.symbol)) {
+      sendToWindow(window.id, 'price-update', {
+        symbol: priceData.symbol,
+        data: priceData
+      });
     }
-  };
+  });
 
-  wsSpotConnection.onmessage = (event) => {
-    handleWebSocketMessage(event, 'SPOT');
-  };
+  evaluateAlerts(priceData.symbol, parseFloat(priceData.price), priceData.timestamp).forEach(alert => {
+    notifyAlert(alert, priceData.price, priceData.timestamp);
+  });
+};
 
-  wsSpotConnection.onerror = (error) => {
-    console.error('Spot WebSocket error:', error);
-  };
+const handleWebSocketMessage = (data: string, provider: MarketDataProvider): void => {
+  try {
+    const message = provider.parseStreamMessage(data);
+    if (!message) {
+      return;
+    }
 
-  wsSpotConnection.onclose = (event) => {
-    console.log(`Spot WebSocket connection closed (code: ${event.code}, reason: ${event.reason})`);
-    wsSpotConnection = null;
-
-    // Only reconnect if close wasn't intentional and app isn't quitting
-    if (!isQuitting && event.code !== 1000) {
-      console.log('Attempting to reconnect Spot WebSocket in 5 seconds...');
-      reconnectTimeout = setTimeout(() => {
-        const spotSymbols = watchedSymbols.filter(s => getMarketType(s) === 'SPOT');
-        if (spotSymbols.length > 0) {
-          connectToSpotWebSocket(spotSymbols);
-        }
-      }, 5000);
+    // Subscription responses need no handling
+    if (message.type === 'ack') {
+      return;
     }
-  };
-};
 
-const connectToPerpWebSocket = (symbols: string[]): void => {
-  // Close existing connection if any
-  if (wsPerpConnection) {
-    if (wsPerpConnection.readyState === WebSocket.OPEN) {
-      wsPerpConnection.close(1000, 'Reconnecting with new symbol list');
+    const symbolId = toSymbolId(provider.id, message.symbol);
+
+    // Candles of charted symbols go to the chart as they are, no aggregation
+    if (message.type === 'kline') {
+      const update: KlineUpdate = {
+        symbol: symbolId,
+        interval: message.interval,
+        point: message.point,
+        closed: message.closed
+      };
+      windowKlineStreams.forEach((requests, windowId) => {
+        if (requests.some(request => request.symbol === symbolId && request.interval === message.interval)) {
+          sendToWindow(windowId, 'kline-update', update);
+        }
+      });
+      return;
     }
-    wsPerpConnection = null;
-  }
 
-  // Clear existing reconnection timeout
-  if (perpReconnectTimeout) {
-    clearTimeout(perpReconnectTimeout);
-    perpReconnectTimeout = null;
+    const priceData: PriceData = {
+      symbol: symbolId,
+      price: message.price,
+      priceChangePercent: message.priceChangePercent,
+      timestamp: Date.now(),
+      marketType: provider.marketType,
+      volume: message.volume,
+      quoteVolume: message.quoteVolume
+    };
+    recordTick(priceData);
+    publishPriceData(priceData);
+  } catch (error) {
+    console.error(`Error parsing ${provider.name} WebSocket message:`, error);
   }
+};
 
-  console.log('Connecting to Binance Perpetual Futures WebSocket stream...');
-  wsPerpConnection = new WebSocket(getWebSocketEndpoint('PERP'));
-
-  wsPerpConnection.onopen = () => {
-    console.log('✓ Connected to Binance Perpetual Futures WebSocket stream');
+const subscribeToSymbols = (provider: MarketDataProvider, symbols: string[]): void => {
+  const connection = providerConnections.get(provider.id);
 
-    // Subscribe to all current symbols
-    if (symbols.length > 0) {
-      subscribeToSymbols(symbols, 'PERP');
-    }
+  if (!connection || !connection.isOpen()) {
+    console.log(`${provider.name} WebSocket not ready, cannot subscribe`);
+    return;
+  }
 
-    // Clear any pending reconnection timeout
-    if (perpReconnectTimeout) {
-      clearTimeout(perpReconnectTimeout);
-      perpReconnectTimeout = null;
-    }
-  };
+  console.log(`Subscribing to ${provider.name} symbols:`, symbols);
+  connection.send(provider.buildSubscribeMessage(symbols, requestId++));
+};
 
-  wsPerpConnection.onmessage = (event) => {
-    handleWebSocketMessage(event, 'PERP');
-  };
+const unsubscribeFromSymbols = (provider: MarketDataProvider, symbols: string[]): void => {
+  const connection = providerConnections.get(provider.id);
 
-  wsPerpConnection.onerror = (error) => {
-    console.error('Perpetual Futures WebSocket error:', error);
-  };
+  if (!connection || !connection.isOpen()) {
+    console.log(`${provider.name} WebSocket not ready, cannot unsubscribe`);
+    return;
+  }
 
-  wsPerpConnection.onclose = (event) => {
-    console.log(`Perpetual Futures WebSocket connection closed (code: ${event.code}, reason: ${event.reason})`);
-    wsPerpConnection = null;
-
-    // Only reconnect if close wasn't intentional and app isn't quitting
-    if (!isQuitting && event.code !== 1000) {
-      console.log('Attempting to reconnect Perpetual Futures WebSocket in 5 seconds...');
-      perpReconnectTimeout = setTimeout(() => {
-        const perpSymbols = watchedSymbols.filter(s => getMarketType(s) === 'PERP');
-        if (perpSymbols.length > 0) {
-          connectToPerpWebSocket(perpSymbols);
-        }
-      }, 5000);
-    }
-  };
+  console.log(`Unsubscribing from ${provider.name} symbols:`, symbols);
+  connection.send(provider.buildUnsubscribeMessage(symbols, requestId++));
 };
 
-const handleWebSocketMessage = (event: MessageEvent, marketType: MarketType): void => {
-  try {
-    const message = JSON.parse(event.data.toString());
+const subscribeToKlines = (symbolId: string, interval: string): void => {
+  const { providerId, symbol } = parseSymbolId(symbolId);
+  const provider = getProvider(providerId);
+  const connection = providerConnections.get(providerId);
 
-    // Handle subscription response
-    if (message.result === null && message.id) {
-      console.log(`✓ ${marketType} subscription request ${message.id} completed`);
-      return;
-    }
-
-    // Debug logging - show all message types received
-    if (marketType === 'PERP') {
-      console.log(`PERP WebSocket message - event type: ${message.e}, symbol: ${message.s}`);
-    }
+  // Not connected yet: the connection subscribes every kline stream once it opens
+  if (provider && connection && connection.isOpen()) {
+    connection.send(provider.buildKlineSubscribeMessage(symbol, interval, requestId++));
+  }
+};
 
-    // Handle ticker data - both spot and futures use 24hrTicker event
-    // Note: Futures might also use 'aggTrade' or other events
-    if (message.e === '24hrTicker' && message.s && message.c) {
-      const fullSymbol = marketType === 'PERP' ? `${message.s}PERP` : message.s;
+const unsubscribeFromKlines = (symbolId: string, interval: string): void => {
+  const { providerId, symbol } = parseSymbolId(symbolId);
+  const provider = getProvider(providerId);
+  const connection = providerConnections.get(providerId);
 
-      console.log(`${marketType} price update for ${fullSymbol}: ${message.c}`);
+  if (provider && connection && connection.isOpen()) {
+    connection.send(provider.buildKlineUnsubscribeMessage(symbol, interval, requestId++));
+  }
+};
 
-      const priceData: PriceData = {
-        symbol: message.s,
-        price: parseFloat(message.c).toFixed(2),
-        priceChangePercent: message.P || '0.00',
-        timestamp: Date.now(),
-        marketType: marketType
-      };
+// Stream the klines every window charts: subscribe the ones newly wanted by any window and
+// unsubscribe the ones no window wants anymore
+const syncKlineStreams = (): void => {
+  const wanted = new Map<string, Set<string>>();
+  windowKlineStreams.forEach(requests => {
+    requests.forEach(request => {
+      wanted.set(request.symbol, (wanted.get(request.symbol) || new Set<string>()).add(request.interval));
+    });
+  });
 
-      const baseAsset = getBaseAsset(fullSymbol);
+  klineStreams.forEach((intervals, symbolId) => {
+    intervals.forEach(interval => {
+      if (!wanted.get(symbolId)?.has(interval)) {
+        unsubscribeFromKlines(symbolId, interval);
+      }
+    });
+  });
 
-      if (mainWindow && !mainWindow.isDestroyed()) {
-        mainWindow.webContents.send('price-update', {
-          symbol: fullSymbol, // Send full symbol with PERP suffix if applicable
-          data: priceData
-        });
+  wanted.forEach((intervals, symbolId) => {
+    intervals.forEach(interval => {
+      if (!klineStreams.get(symbolId)?.has(interval)) {
+        subscribeToKlines(symbolId, interval);
       }
-    }
-  } catch (error) {
-    console.error(`Error parsing ${marketType} WebSocket message:`, error);
-  }
+    });
+  });
+
+  klineStreams.clear();
+  wanted.forEach((intervals, symbolId) => klineStreams.set(symbolId, intervals));
 };
 
-const subscribeToSymbols = (symbols: string[], marketType: MarketType): void => {
-  const wsConnection = marketType === 'PERP' ? wsPerpConnection : wsSpotConnection;
+// Replace the kline streams of a window with its charted symbols
+const setKlineStreams = (windowId: string, requests: KlineStreamRequest[]): void => {
+  windowKlineStreams.set(windowId, requests
+    .map(request => ({ symbol: normalizeSymbolId(request.symbol), interval: request.interval })));
+  syncKlineStreams();
+};
 
-  if (!wsConnection || wsConnection.readyState !== WebSocket.OPEN) {
-    console.log(`${marketType} WebSocket not ready, cannot subscribe`);
+const addSymbolSubscription = (symbolId: string): void => {
+  const { providerId, symbol } = parseSymbolId(symbolId);
+  const provider = getProvider(providerId);
+  if (!provider || getReplayState().active) {
     return;
   }
 
-  const streams = symbols.map(symbol => getStreamName(symbol));
-  const subscribeMessage = {
-    method: 'SUBSCRIBE',
-    params: streams,
-    id: requestId++
-  };
+  const connection = providerConnections.get(provider.id);
 
-  console.log(`Subscribing to ${marketType} streams:`, streams);
-  wsConnection.send(JSON.stringify(subscribeMessage));
+  // Without a connection, establish one; a connection that is still (re)connecting
+  // subscribes every watched symbol once it opens
+  if (!connection) {
+    console.log(`No ${provider.name} WebSocket yet, establishing connection...`);
+    connectToProvider(provider);
+  } else if (connection.isOpen()) {
+    subscribeToSymbols(provider, [symbol]);
+  }
 };
 
-const unsubscribeFromSymbols = (symbols: string[], marketType: MarketType): void => {
-  const wsConnection = marketType === 'PERP' ? wsPerpConnection : wsSpotConnection;
+// Called once no window watches the symbol anymore (and its kline streams are gone)
+const removeSymbolSubscription = (symbolId: string): void => {
+  const { providerId, symbol } = parseSymbolId(symbolId);
+  const provider = getProvider(providerId);
+  const connection = providerConnections.get(providerId);
 
-  if (!wsConnection || wsConnection.readyState !== WebSocket.OPEN) {
-    console.log(`${marketType} WebSocket not ready, cannot unsubscribe`);
+  if (!provider || !connection) {
     return;
   }
 
-  const streams = symbols.map(symbol => getStreamName(symbol));
-  const unsubscribeMessage = {
-    method: 'UNSUBSCRIBE',
-    params: streams,
-    id: requestId++
-  };
-
-  console.log(`Unsubscribing from ${marketType} streams:`, streams);
-  wsConnection.send(JSON.stringify(unsubscribeMessage));
+  // If no more symbols on this provider, close its WebSocket connection
+  const remainingSymbols = getProviderSymbols(providerId).filter(s => s !== symbol);
+  if (remainingSymbols.length === 0) {
+    console.log(`No more ${provider.name} symbols, closing its WebSocket connection`);
+    providerConnections.delete(providerId);
+    connection.close();
+    setConnectionState(providerId, null);
+  } else if (connection.isOpen()) {
+    unsubscribeFromSymbols(provider, [symbol]);
+  }
 };
 
-const addSymbolSubscription = (symbol: string): void => {
-  const marketType = getMarketType(symbol);
-  const wsConnection = marketType === 'PERP' ? wsPerpConnection : wsSpotConnection;
-
-  // If the WebSocket for this market type doesn't exist or isn't ready, establish it
-  if (!wsConnection || wsConnection.readyState !== WebSocket.OPEN) {
-    console.log(`${marketType} WebSocket not ready, establishing connection...`);
-    if (marketType === 'PERP') {
-      const perpSymbols = watchedSymbols.filter(s => getMarketType(s) === 'PERP');
-      connectToPerpWebSocket(perpSymbols);
-    } else {
-      const spotSymbols = watchedSymbols.filter(s => getMarketType(s) === 'SPOT');
-      connectToSpotWebSocket(spotSymbols);
-    }
-  } else {
-    subscribeToSymbols([symbol], marketType);
+// Drop the alerts, chart preferences, holdings and color of a symbol the user removed from
+// the last window that watched it. Closing a window keeps them for when the symbol comes back.
+const forgetSymbol = (symbolId: string): void => {
+  removeAlertsForSymbol(symbolId);
+  sendToAllWindows('alerts-updated', getAlerts());
+  if (chartSettings[symbolId]) {
+    delete chartSettings[symbolId];
+    saveChartSettings();
+    sendToAllWindows('chart-settings-updated', chartSettings);
+  }
+  if (holdings[symbolId]) {
+    delete holdings[symbolId];
+    saveHoldings();
+    sendToAllWindows('holdings-updated', holdings);
+  }
+  const { colors } = getSettings();
+  if (colors[symbolId]) {
+    const { [symbolId]: removed, ...remaining } = colors;
+    updateSettings({ colors: remaining });
+  }
+  if (symbolInfo[symbolId]) {
+    delete symbolInfo[symbolId];
+    saveSymbolInfo();
   }
+  removeCachedHistory(symbolId);
 };
 
-const removeSymbolSubscription = (symbol: string): void => {
-  const marketType = getMarketType(symbol);
-  const wsConnection = marketType === 'PERP' ? wsPerpConnection : wsSpotConnection;
+// Drop symbols from a window: its kline streams go first, then the ticker streams of
+// symbols no other window watches. `forget` also drops their data, see forgetSymbol.
+const releaseWindowSymbols = (windowId: string, symbolIds: string[], forget: boolean): void => {
+  const requests = windowKlineStreams.get(windowId);
+  if (requests) {
+    windowKlineStreams.set(windowId, requests.filter(request => !symbolIds.includes(request.symbol)));
+    syncKlineStreams();
+  }
 
-  if (wsConnection && wsConnection.readyState === WebSocket.OPEN) {
-    unsubscribeFromSymbols([symbol], marketType);
+  symbolIds.forEach(symbolId => {
+    if (releaseSymbol(symbolId)) {
+      removeSymbolSubscription(symbolId);
+      if (forget) {
+        forgetSymbol(symbolId);
+      }
+    }
+  });
+  refreshTrayMenu();
+};
 
-    // Check if there are any remaining symbols of this market type
-    const remainingSymbols = watchedSymbols.filter(s => getMarketType(s) === marketType && s !== symbol);
+// Replace the groups of a window; symbols the user left in none of them are released
+const setWindowGroups = (windowId: string, groups: WatchlistGroup[], activeGroupId: string): void => {
+  const before = getWindowWatchlist(windowId);
+  updateWindowSettings(windowId, { groups, activeGroupId });
+  const after = getWindowWatchlist(windowId);
+  const released = before.filter(symbolId => !after.includes(symbolId));
+  if (released.length > 0) {
+    releaseWindowSymbols(windowId, released, true);
+  }
+};
 
-    // If no more symbols of this type, close the WebSocket connection
-    if (remainingSymbols.length === 0) {
-      console.log(`No more ${marketType} symbols, closing ${marketType} WebSocket connection`);
-      wsConnection.close(1000, 'No more symbols to watch');
-      if (marketType === 'PERP') {
-        wsPerpConnection = null;
-      } else {
-        wsSpotConnection = null;
-      }
+// New windows start with the default symbols of the settings
+const openWindowWithDefaultSymbols = (): void => {
+  const symbolIds = getSettings().defaultSymbols;
+  openNewWidgetWindow(symbolIds);
+  symbolIds.forEach(symbolId => {
+    if (retainSymbol(symbolId)) {
+      addSymbolSubscription(symbolId);
     }
+  });
+  if (assignSymbolColors(symbolIds)) {
+    sendToAllWindows('settings-updated', getSettings());
   }
+  refreshTrayMenu();
+  resolveSymbolInfo();
+};
+
+// Close a window for good, releasing its symbols. The last window isn't closed but quits the app.
+const closeWindow = (windowId: string): void => {
+  releaseWindowSymbols(windowId, getWindowWatchlist(windowId), false);
+  windowKlineStreams.delete(windowId);
+  closeWidgetWindow(windowId);
 };
 
 app.whenReady().then(() => {
-  // Load watched symbols from file before creating window
-  watchedSymbols = loadWatchedSymbols();
+  // Load settings before creating window
+  const settings = initSettingsStore(app.getPath('userData'));
+  settings.windows.forEach(window => getWindowSymbols(window).forEach(retainSymbol));
+  assignSymbolColors(getWatchedSymbols());
+  initAlerts(settings.alerts, alerts => updateSettings({ alerts }));
+  chartSettings = { ...settings.chart };
+  holdings = { ...settings.holdings };
+  symbolInfo = loadSymbolInfo();
+  initHistoryCache(getHistoryCacheDir());
+  initTickRecorder(getTickRecordingsDir(), settings.tickRecording);
+
+  // --replay=<file or directory> starts in replay mode instead of connecting, e.g. for
+  // demos or offline UI tests; --replay-speed=10 sets its pace
+  const replayArg = process.argv.find(arg => arg.startsWith('--replay='));
+  const speedArg = process.argv.find(arg => arg.startsWith('--replay-speed='));
+  if (speedArg) {
+    setReplaySpeed(parseFloat(speedArg.slice('--replay-speed='.length)));
+  }
 
-  createWindow();
+  settings.windows.forEach(window => createWidgetWindow(window.id));
   createTray();
-  connectToBinance();
+  resolveSymbolInfo();
+
+  if (replayArg) {
+    // Give the renderers a moment to register their listeners
+    getWidgetWindows()[0].webContents.once('did-finish-load', () => {
+      setTimeout(() => startReplayMode([replayArg.slice('--replay='.length)]), 1000);
+    });
+  } else {
+    connectToProviders();
+  }
+
+  // Bring widgets back that were on a monitor that got unplugged
+  screen.on('display-removed', () => {
+    fitWidgetWindowsToDisplays();
+  });
+
+  // The 'system' theme follows the OS dark mode
+  applyNativeTheme();
+  nativeTheme.on('updated', () => {
+    sendToAllWindows('system-dark-mode-updated', nativeTheme.shouldUseDarkColors);
+  });
+
+  // Sockets rarely survive sleep; reconnect right away instead of waiting for the watchdog.
+  // The reconnect also triggers the chart backfill.
+  powerMonitor.on('resume', () => {
+    console.log('System resumed, reconnecting streams');
+    connectToProviders();
+  });
 
   app.on('activate', () => {
     if (BrowserWindow.getAllWindows().length === 0) {
-      createWindow();
+      getSettings().windows.forEach(window => createWidgetWindow(window.id));
     }
   });
 });
@@ -499,197 +886,428 @@ app.on('window-all-closed', () => {
   // Only quit if explicitly requested via tray menu
 });
 
-ipcMain.on('close-app', () => {
-  isQuitting = true;
+// The close button closes its window, or quits the app from the last one
+listen('close-app', (event) => {
+  const windowId = getWindowId(event.sender);
+  if (windowId && getWidgetWindowCount() > 1) {
+    closeWindow(windowId);
+  } else {
+    quitApp();
+  }
+});
+
+listen('minimize-app', (event) => {
+  BrowserWindow.fromWebContents(event.sender)?.hide();
+});
+
+// Handle window resize requests from renderer, unless the user locked the size
+listen('resize-window', (event, size) => {
+  if (!isRecord(size) || !isFiniteNumber(size.width) || !isFiniteNumber(size.height) || size.width <= 0 || size.height <= 0) {
+    return;
+  }
+  const width = Math.round(size.width);
+  const height = Math.round(size.height);
+  const windowId = getWindowId(event.sender);
+  const window = BrowserWindow.fromWebContents(event.sender);
+  if (windowId && window && !getWindowSettings(windowId)?.lockSize) {
+    window.setSize(width, height);
+  }
+});
 
-  // Clean up WebSocket connections
-  if (wsSpotConnection && wsSpotConnection.readyState === WebSocket.OPEN) {
-    wsSpotConnection.close(1000, 'App closing');
+// Handle app settings; the main process owns them and pushes every change to the renderer
+handle('get-settings', () => {
+  return getSettings();
+});
+
+handle('get-system-dark-mode', () => {
+  return nativeTheme.shouldUseDarkColors;
+});
+
+// Display settings and colors are shared; the window options apply to the sending window
+handle('update-settings', (event, input): SettingsUpdateResult => {
+  const { update, errors: updateErrors } = validateSettingsUpdate(input);
+  if (updateErrors.length > 0) {
+    console.error('Rejected settings update:', updateErrors);
+    return { ok: false, errors: updateErrors };
   }
-  wsSpotConnection = null;
 
-  if (wsPerpConnection && wsPerpConnection.readyState === WebSocket.OPEN) {
-    wsPerpConnection.close(1000, 'App closing');
+  // Default symbols come from the watchlists, whose symbols were checked when they were added
+  const { defaultSymbols } = getSettings();
+  const unknownSymbols = (update.defaultSymbols || []).filter(symbolId => (
+    !defaultSymbols.includes(symbolId) && !symbolRefCounts.has(symbolId)
+  ));
+  if (unknownSymbols.length > 0) {
+    console.error('Rejected settings update, unwatched default symbols:', unknownSymbols);
+    return { ok: false, errors: unknownSymbols.map(symbolId => `defaultSymbols: ${symbolId} isn't in any watchlist`) };
   }
-  wsPerpConnection = null;
 
-  // Clear reconnection timeouts
-  if (reconnectTimeout) {
-    clearTimeout(reconnectTimeout);
-    reconnectTimeout = null;
+  // Colors are only picked for symbols the sending window shows
+  const windowId = getWindowId(event.sender);
+  const watchlist = windowId ? getWindowWatchlist(windowId) : [];
+  const unwatchedColors = Object.keys(update.colors || {}).filter(symbolId => !watchlist.includes(symbolId));
+  if (unwatchedColors.length > 0) {
+    console.error('Rejected settings update, colors of unwatched symbols:', unwatchedColors);
+    return { ok: false, errors: unwatchedColors.map(symbolId => `colors: ${symbolId} isn't in this window's watchlist`) };
   }
 
-  if (perpReconnectTimeout) {
-    clearTimeout(perpReconnectTimeout);
-    perpReconnectTimeout = null;
+  // The merged document is validated as a whole too, e.g. that the theme exists
+  const lockSize = update.window?.lockSize;
+  const current = getSettings();
+  const { settings, errors } = validateSettings({
+    ...current,
+    windows: current.windows.map(window => (window.id === windowId && lockSize !== undefined ? { ...window, lockSize } : window)),
+    display: { ...current.display, ...update.display },
+    colors: { ...current.colors, ...update.colors },
+    defaultSymbols: update.defaultSymbols ?? current.defaultSymbols,
+    theme: update.theme ?? current.theme,
+    customThemes: update.customThemes ?? current.customThemes
+  });
+  if (errors.length > 0) {
+    console.error('Rejected settings update:', errors);
+    return { ok: false, errors };
   }
 
-  app.quit();
+  updateSettings({
+    windows: settings.windows,
+    display: settings.display,
+    colors: settings.colors,
+    defaultSymbols: settings.defaultSymbols,
+    theme: settings.theme,
+    customThemes: settings.customThemes
+  });
+  applyDisplaySettingsToAll();
+  applyNativeTheme();
+  sendToAllWindows('settings-updated', getSettings());
+  return { ok: true, errors: [] };
+});
+
+// Handle symbol management; watchlists belong to the sending window
+handle('get-watched-symbols', (event) => {
+  const windowId = getWindowId(event.sender);
+  return windowId ? getWindowWatchlist(windowId) : [];
 });
 
-ipcMain.on('minimize-app', () => {
-  if (mainWindow) {
-    mainWindow.hide();
+// Symbols go to the given group, or the active one; a symbol may be in several groups
+handle('add-symbol', async (event, symbol, groupId) => {
+  if (!isNonEmptyString(symbol) || !isOptionalId(groupId)) {
+    return false;
+  }
+  const upperSymbol = normalizeSymbolId(symbol);
+  if (!(await isListedSymbol(upperSymbol))) {
+    console.error(`Rejected unknown symbol: ${upperSymbol}`);
+    return false;
+  }
+
+  const windowId = getWindowId(event.sender);
+  const window = windowId ? getWindowSettings(windowId) : undefined;
+  const targetId = groupId || window?.activeGroupId;
+  const group = window?.groups.find(g => g.id === targetId);
+  if (!windowId || !window || !group) {
+    return false;
+  }
+  if (group.symbols.includes(upperSymbol)) {
+    return false;
+  }
+
+  console.log(`Adding symbol to window ${windowId} (${group.name}): ${upperSymbol}`);
+  const isNewToWindow = !getWindowSymbols(window).includes(upperSymbol);
+  updateWindowSettings(windowId, {
+    groups: window.groups.map(g => (g.id === group.id ? { ...g, symbols: [...g.symbols, upperSymbol] } : g))
+  });
+
+  // Only the first window to watch a symbol subscribes its stream
+  if (isNewToWindow && retainSymbol(upperSymbol)) {
+    addSymbolSubscription(upperSymbol);
   }
+  if (assignSymbolColors([upperSymbol])) {
+    sendToAllWindows('settings-updated', getSettings());
+  }
+  refreshTrayMenu();
+
+  await resolveSymbolInfo();
+  return true;
 });
 
-// Handle window resize requests from renderer
-ipcMain.on('resize-window', (event, { width, height }) => {
-  if (mainWindow) {
-    console.log(`Resizing window to: ${width}x${height}`);
-    mainWindow.setSize(width, height);
+// Removing a symbol from one group keeps it watched while another group of the window has it
+handle('remove-symbol', (event, symbol, groupId) => {
+  if (!isNonEmptyString(symbol) || !isOptionalId(groupId)) {
+    return false;
   }
+  const windowId = getWindowId(event.sender);
+  const window = windowId ? getWindowSettings(windowId) : undefined;
+  const upperSymbol = normalizeSymbolId(symbol);
+  const targetId = groupId || window?.activeGroupId;
+  const group = window?.groups.find(g => g.id === targetId);
+  if (!windowId || !window || !group || !group.symbols.includes(upperSymbol)) {
+    return false;
+  }
+
+  console.log(`Removing symbol from window ${windowId} (${group.name}): ${upperSymbol}`);
+  // Unsubscribes and forgets the symbol once no window watches it
+  setWindowGroups(
+    windowId,
+    window.groups.map(g => (g.id === group.id ? { ...g, symbols: g.symbols.filter(s => s !== upperSymbol) } : g)),
+    window.activeGroupId
+  );
+  return true;
 });
 
-// Handle symbol management
-ipcMain.handle('get-watched-symbols', () => {
-  return watchedSymbols;
+// The renderer sends a group's symbols in their new order; anything but a reordering is rejected
+handle('reorder-symbols', (event, symbols, groupId) => {
+  if (!Array.isArray(symbols) || !symbols.every(isNonEmptyString) || !isOptionalId(groupId)) {
+    return null;
+  }
+  const windowId = getWindowId(event.sender);
+  const window = windowId ? getWindowSettings(windowId) : undefined;
+  const targetId = groupId || window?.activeGroupId;
+  const group = window?.groups.find(g => g.id === targetId);
+  if (!windowId || !window || !group) {
+    return null;
+  }
+  const ordered = symbols.map(normalizeSymbolId);
+  if (ordered.length !== group.symbols.length || !group.symbols.every(symbol => ordered.includes(symbol))) {
+    return null;
+  }
+  updateWindowSettings(windowId, {
+    groups: window.groups.map(g => (g.id === group.id ? { ...g, symbols: ordered } : g))
+  });
+  return getWindowGroups(windowId);
 });
 
-ipcMain.handle('add-symbol', (event, symbol: string) => {
-  const upperSymbol = symbol.toUpperCase();
-  if (!watchedSymbols.includes(upperSymbol)) {
-    watchedSymbols.push(upperSymbol);
-    console.log(`Adding symbol: ${upperSymbol}`);
+// Handle watchlist groups (tabs) of the sending window. Each returns the groups as they are
+// afterwards, or null if the change was rejected.
+handle('get-watchlist-groups', (event) => {
+  return getWindowGroups(getWindowId(event.sender));
+});
 
-    // Save to file
-    saveWatchedSymbols();
+handle('add-watchlist-group', (event, name) => {
+  const windowId = getWindowId(event.sender);
+  const window = windowId ? getWindowSettings(windowId) : undefined;
+  const groupName = normalizeName(name);
+  if (!windowId || !window || !groupName) {
+    return null;
+  }
+  const group: WatchlistGroup = {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    name: groupName,
+    symbols: []
+  };
+  updateWindowSettings(windowId, { groups: [...window.groups, group], activeGroupId: group.id });
+  return getWindowGroups(windowId);
+});
 
-    // Add subscription for new symbol if connection is open
-    addSymbolSubscription(upperSymbol);
-    return true;
+handle('rename-watchlist-group', (event, groupId, name) => {
+  const windowId = getWindowId(event.sender);
+  const window = windowId ? getWindowSettings(windowId) : undefined;
+  const groupName = normalizeName(name);
+  if (!windowId || !window || !groupName || !window.groups.some(g => g.id === groupId)) {
+    return null;
   }
-  return false;
+  updateWindowSettings(windowId, {
+    groups: window.groups.map(g => (g.id === groupId ? { ...g, name: groupName } : g))
+  });
+  return getWindowGroups(windowId);
 });
 
-ipcMain.handle('remove-symbol', (event, symbol: string) => {
-  const upperSymbol = symbol.toUpperCase();
-  const index = watchedSymbols.indexOf(upperSymbol);
-  if (index > -1) {
-    console.log(`Removing symbol: ${upperSymbol}`);
+// The last group can't be removed; its symbols are released unless another group has them
+handle('remove-watchlist-group', (event, groupId) => {
+  const windowId = getWindowId(event.sender);
+  const window = windowId ? getWindowSettings(windowId) : undefined;
+  if (!windowId || !window || window.groups.length <= 1 || !window.groups.some(g => g.id === groupId)) {
+    return null;
+  }
+  const groups = window.groups.filter(g => g.id !== groupId);
+  const activeGroupId = window.activeGroupId === groupId ? groups[0].id : window.activeGroupId;
+  console.log(`Removing watchlist group from window ${windowId}: ${window.groups.find(g => g.id === groupId)?.name}`);
+  setWindowGroups(windowId, groups, activeGroupId);
+  return getWindowGroups(windowId);
+});
 
-    // Remove subscription for symbol if connection is open
-    removeSymbolSubscription(upperSymbol);
+handle('set-active-watchlist-group', (event, groupId) => {
+  const windowId = getWindowId(event.sender);
+  const window = windowId ? getWindowSettings(windowId) : undefined;
+  if (!windowId || !window || !isNonEmptyString(groupId) || !window.groups.some(g => g.id === groupId)) {
+    return null;
+  }
+  updateWindowSettings(windowId, { activeGroupId: groupId });
+  return getWindowGroups(windowId);
+});
 
-    watchedSymbols.splice(index, 1);
+// Handle per-symbol chart preferences
+handle('get-chart-settings', () => {
+  return chartSettings;
+});
 
-    // Save to file
-    saveWatchedSymbols();
+handle('set-chart-timeframe', (event, symbol, timeframe) => {
+  const config = TIMEFRAMES.find(tf => tf.id === timeframe);
+  if (!isWatchedSymbol(event.sender, symbol) || !config) {
+    return false;
+  }
+  const upperSymbol = normalizeSymbolId(symbol);
+  chartSettings[upperSymbol] = { ...chartSettings[upperSymbol], timeframe: config.id };
+  saveChartSettings();
+  sendToOtherWindows(getWindowId(event.sender), 'chart-settings-updated', chartSettings);
+  return true;
+});
 
-    return true;
+handle('set-chart-indicators', (event, symbol, indicators) => {
+  if (!isWatchedSymbol(event.sender, symbol) || !isValidIndicatorSettings(indicators)) {
+    return false;
   }
-  return false;
+  const upperSymbol = normalizeSymbolId(symbol);
+  chartSettings[upperSymbol] = { ...chartSettings[upperSymbol], indicators };
+  saveChartSettings();
+  sendToOtherWindows(getWindowId(event.sender), 'chart-settings-updated', chartSettings);
+  return true;
 });
 
-// Handle Binance API requests - fetch both spot and perpetual futures symbols
-ipcMain.handle('get-binance-symbols', async () => {
-  try {
-    const https = require('https');
-
-    // Fetch spot symbols
-    const spotSymbolsPromise = new Promise((resolve, reject) => {
-      const options = {
-        hostname: 'api.binance.com',
-        path: '/api/v3/exchangeInfo',
-        method: 'GET'
-      };
+// Handle portfolio holdings
+handle('get-holdings', () => {
+  return holdings;
+});
 
-      const req = https.request(options, (res: any) => {
-        let data = '';
-        res.on('data', (chunk: any) => {
-          data += chunk;
-        });
-        res.on('end', () => {
-          try {
-            const response = JSON.parse(data);
-            // Filter only USDT pairs and active symbols
-            const usdtSymbols = response.symbols
-              .filter((symbol: any) =>
-                symbol.quoteAsset === 'USDT' &&
-                symbol.status === 'TRADING'
-              )
-              .map((symbol: any) => ({
-                symbol: symbol.symbol,
-                baseAsset: symbol.baseAsset,
-                quoteAsset: symbol.quoteAsset,
-                status: symbol.status,
-                marketType: 'SPOT' as MarketType
-              }));
-            resolve(usdtSymbols);
-          } catch (error) {
-            reject(error);
-          }
-        });
-      });
+// Passing null clears the holding for the symbol
+handle('set-holding', (event, symbol, holding) => {
+  if (!isWatchedSymbol(event.sender, symbol)) {
+    return false;
+  }
+  const upperSymbol = normalizeSymbolId(symbol);
+  if (holding === null) {
+    delete holdings[upperSymbol];
+  } else if (isValidHolding(holding)) {
+    holdings[upperSymbol] = { quantity: holding.quantity, averageCost: holding.averageCost };
+  } else {
+    return false;
+  }
+  saveHoldings();
+  sendToOtherWindows(getWindowId(event.sender), 'holdings-updated', holdings);
+  return true;
+});
 
-      req.on('error', (error: any) => {
-        reject(error);
-      });
+// Handle price alert management
+handle('get-alerts', () => {
+  return getAlerts();
+});
 
-      req.end();
-    });
+handle('add-alert', (event, input) => {
+  if (!isValidNewAlert(input) || !isWatchedSymbol(event.sender, input.symbol)) {
+    return null;
+  }
+  const symbol = normalizeSymbolId(input.symbol);
+  const alert = addAlert({ ...input, symbol });
+  sendToOtherWindows(getWindowId(event.sender), 'alerts-updated', getAlerts());
+  return alert;
+});
 
-    // Fetch perpetual futures symbols
-    const perpSymbolsPromise = new Promise((resolve, reject) => {
-      const options = {
-        hostname: 'fapi.binance.com',
-        path: '/fapi/v1/exchangeInfo',
-        method: 'GET'
-      };
+handle('remove-alert', (event, id) => {
+  const removed = isNonEmptyString(id) && removeAlert(id);
+  if (removed) {
+    sendToOtherWindows(getWindowId(event.sender), 'alerts-updated', getAlerts());
+  }
+  return removed;
+});
 
-      const req = https.request(options, (res: any) => {
-        let data = '';
-        res.on('data', (chunk: any) => {
-          data += chunk;
-        });
-        res.on('end', () => {
-          try {
-            const response = JSON.parse(data);
-            // Filter only USDT perpetual futures and active symbols
-            const perpSymbols = response.symbols
-              .filter((symbol: any) =>
-                symbol.quoteAsset === 'USDT' &&
-                symbol.contractType === 'PERPETUAL' &&
-                symbol.status === 'TRADING'
-              )
-              .map((symbol: any) => ({
-                symbol: `${symbol.symbol}PERP`, // Add PERP suffix for display
-                baseAsset: symbol.baseAsset,
-                quoteAsset: symbol.quoteAsset,
-                status: symbol.status,
-                marketType: 'PERP' as MarketType
-              }));
-            resolve(perpSymbols);
-          } catch (error) {
-            console.error('Error parsing perpetual futures symbols:', error);
-            resolve([]); // Return empty array on error rather than rejecting
-          }
-        });
-      });
+// Handle market data requests - symbol lists from every provider
+handle('get-market-symbols', async () => {
+  const results = await Promise.all(getProviders().map(async provider => {
+    try {
+      return await getMarketSymbols(provider);
+    } catch (error) {
+      console.error(`Error fetching ${provider.name} symbols:`, error);
+      return [] as MarketSymbol[]; // Return empty list on error rather than rejecting
+    }
+  }));
 
-      req.on('error', (error: any) => {
-        console.error('Error fetching perpetual futures symbols:', error);
-        resolve([]); // Return empty array on error rather than rejecting
-      });
+  // Combine symbols of all providers
+  return results.flat();
+});
 
-      req.end();
-    });
+handle('get-symbol-info', () => {
+  return symbolInfo;
+});
 
-    // Wait for both requests to complete
-    const [spotSymbols, perpSymbols] = await Promise.all([spotSymbolsPromise, perpSymbolsPromise]);
+// Most klines a chart may ask for at once; the exchanges don't return more either
+const MAX_HISTORY_LIMIT = 1000;
 
-    // Combine and return both spot and perpetual futures symbols
-    return [...(spotSymbols as any[]), ...(perpSymbols as any[])];
-  } catch (error) {
-    console.error('Error fetching Binance symbols:', error);
+// Checked arguments of a history request: a symbol the window watches, the kline interval of a
+// timeframe and a sane range. Null if any of them is off.
+const toHistoryRequest = (sender: WebContents, symbolId: unknown, interval: unknown, startTime: unknown, limit: unknown) => {
+  if (!isWatchedSymbol(sender, symbolId) || typeof interval !== 'string' || !TIMEFRAMES.some(tf => tf.klineInterval === interval) ||
+    !isFiniteNumber(startTime) || !isFiniteNumber(limit) || !Number.isInteger(limit) || limit < 1) {
+    return null;
+  }
+  return { id: normalizeSymbolId(symbolId), interval, startTime, limit: Math.min(limit, MAX_HISTORY_LIMIT) };
+};
+
+// The part of a history a chart asked for: buckets from startTime on, at most limit
+const sliceHistory = (points: PriceHistoryPoint[], startTime: number, limit: number): PriceHistoryPoint[] => {
+  const inRange = points.filter(point => point.open_time >= startTime);
+  return inRange.length > limit ? inRange.slice(inRange.length - limit) : inRange;
+};
+
+// Kline history from the on-disk cache only, for an instant first render
+handle('get-cached-history', (event, symbolId, intervalArg, startTimeArg, limitArg) => {
+  const request = toHistoryRequest(event.sender, symbolId, intervalArg, startTimeArg, limitArg);
+  if (!request) {
     return [];
   }
+  return sliceHistory(readCachedHistory(request.id, request.interval), request.startTime, request.limit);
+});
+
+// Kline history for a symbol, oldest first. Only the tail after the newest cached bucket is
+// downloaded; the cached history is returned as is when the provider can't be reached.
+handle('get-history', async (event, symbolId, intervalArg, startTimeArg, limitArg) => {
+  const request = toHistoryRequest(event.sender, symbolId, intervalArg, startTimeArg, limitArg);
+  if (!request) {
+    return [];
+  }
+  const { id, interval, startTime, limit } = request;
+  const { providerId, symbol } = parseSymbolId(id);
+  const provider = getProvider(providerId);
+  let history = readCachedHistory(id, interval);
+  if (!provider) {
+    return sliceHistory(history, startTime, limit);
+  }
+
+  // The newest cached bucket is refetched since it may have been still forming
+  const lastCached = history[history.length - 1];
+  const tailStart = Math.max(startTime, lastCached ? lastCached.open_time : 0);
+
+  try {
+    const tail = await provider.fetchKlines(symbol, interval, tailStart, limit);
+    history = updateCachedHistory(id, interval, tail);
+  } catch (error) {
+    console.error(`Error fetching klines for ${id}, using cached history:`, error);
+  }
+
+  return sliceHistory(history, startTime, limit);
+});
+
+// Live candles for the symbols currently on a window's chart
+handle('set-kline-streams', (event, requests) => {
+  const windowId = getWindowId(event.sender);
+  if (!windowId || !Array.isArray(requests)) {
+    return false;
+  }
+  setKlineStreams(windowId, requests.filter((request): request is KlineStreamRequest =>
+    isRecord(request) && isWatchedSymbol(event.sender, request.symbol) &&
+    TIMEFRAMES.some(tf => tf.klineInterval === request.interval)
+  ));
+  return true;
+});
+
+handle('get-replay-state', () => {
+  return getReplayState();
+});
+
+handle('get-connection-state', () => {
+  return connectionStates;
 });
 
 // Handle reconnect WebSocket request
-ipcMain.handle('reconnect-websocket', () => {
+handle('reconnect-websocket', () => {
   console.log('Reconnecting WebSocket connection...');
-  connectToBinance();
+  connectToProviders();
   return true;
 });
 
@@ -699,11 +1317,12 @@ app.whenReady().then(() => {
 
   // Register Ctrl+Shift+I (or Cmd+Shift+I on Mac) to toggle DevTools
   globalShortcut.register('CommandOrControl+Shift+I', () => {
-    if (mainWindow) {
-      if (mainWindow.webContents.isDevToolsOpened()) {
-        mainWindow.webContents.closeDevTools();
+    const window = BrowserWindow.getFocusedWindow() || getWidgetWindows()[0];
+    if (window) {
+      if (window.webContents.isDevToolsOpened()) {
+        window.webContents.closeDevTools();
       } else {
-        mainWindow.webContents.openDevTools();
+        window.webContents.openDevTools();
       }
     }
   });
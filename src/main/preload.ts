@@ -0,0 +1,92 @@
+import { contextBridge, ipcRenderer, IpcRendererEvent } from 'electron';
+import { EventChannel, InvokeChannel, SendChannel, WidgetApi } from '../shared/types';
+
+// The renderer runs without Node integration and with context isolation, so this bridge is
+// its only way to the main process. It forwards nothing but the channels of the contract in
+// src/shared/types.ts.
+
+// Objects rather than arrays so the compiler checks that they list exactly the contract's channels
+const INVOKE_CHANNELS: { [channel in InvokeChannel]: true } = {
+  'get-settings': true,
+  'get-system-dark-mode': true,
+  'update-settings': true,
+  'get-watched-symbols': true,
+  'add-symbol': true,
+  'remove-symbol': true,
+  'reorder-symbols': true,
+  'get-watchlist-groups': true,
+  'add-watchlist-group': true,
+  'rename-watchlist-group': true,
+  'remove-watchlist-group': true,
+  'set-active-watchlist-group': true,
+  'get-chart-settings': true,
+  'set-chart-timeframe': true,
+  'set-chart-indicators': true,
+  'get-holdings': true,
+  'set-holding': true,
+  'get-alerts': true,
+  'add-alert': true,
+  'remove-alert': true,
+  'get-market-symbols': true,
+  'get-symbol-info': true,
+  'get-cached-history': true,
+  'get-history': true,
+  'set-kline-streams': true,
+  'get-replay-state': true,
+  'get-connection-state': true,
+  'reconnect-websocket': true,
+};
+
+const SEND_CHANNELS: { [channel in SendChannel]: true } = {
+  'close-app': true,
+  'minimize-app': true,
+  'resize-window': true,
+};
+
+const EVENT_CHANNELS: { [channel in EventChannel]: true } = {
+  'price-update': true,
+  'kline-update': true,
+  'history-gap': true,
+  'symbol-info-updated': true,
+  'alerts-updated': true,
+  'holdings-updated': true,
+  'chart-settings-updated': true,
+  'replay-state': true,
+  'connection-state': true,
+  'settings-updated': true,
+  'system-dark-mode-updated': true,
+  'open-settings': true,
+};
+
+const isAllowed = (channels: object, channel: string): boolean => {
+  return Object.prototype.hasOwnProperty.call(channels, channel);
+};
+
+const widgetApi: WidgetApi = {
+  invoke: (channel, ...args) => {
+    if (!isAllowed(INVOKE_CHANNELS, channel)) {
+      return Promise.reject(new Error(`Unknown IPC channel: ${channel}`));
+    }
+    return ipcRenderer.invoke(channel, ...args);
+  },
+
+  send: (channel, ...args) => {
+    if (isAllowed(SEND_CHANNELS, channel)) {
+      ipcRenderer.send(channel, ...args);
+    }
+  },
+
+  on: (channel, listener) => {
+    if (!isAllowed(EVENT_CHANNELS, channel)) {
+      throw new Error(`Unknown IPC channel: ${channel}`);
+    }
+    // The event object gives access to the sender, so the page only gets the arguments
+    const forward = (event: IpcRendererEvent, ...args: any[]) => (listener as (...args: any[]) => void)(...args);
+    ipcRenderer.on(channel, forward);
+    return () => {
+      ipcRenderer.removeListener(channel, forward);
+    };
+  },
+};
+
+contextBridge.exposeInMainWorld('widgetApi', widgetApi);
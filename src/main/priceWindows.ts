@@ -0,0 +1,64 @@
+// Rolling per-symbol price windows built from live ticks.
+// Each symbol keeps only as much history as its longest move alert needs.
+
+interface WindowPoint {
+  timestamp: number;
+  price: number;
+}
+
+export interface WindowRange {
+  min: number;
+  max: number;
+  oldest: number; // Timestamp of the oldest point in the range
+}
+
+const windows = new Map<string, WindowPoint[]>();
+
+export const recordPrice = (symbol: string, price: number, timestamp: number, retentionMs: number): void => {
+  const points = windows.get(symbol) || [];
+  const last = points[points.length - 1];
+
+  // Ticker streams push about once per second; collapse bursts into one point per second
+  if (last && timestamp - last.timestamp < 1000) {
+    last.price = price;
+  } else {
+    points.push({ timestamp, price });
+  }
+
+  const cutoff = timestamp - retentionMs;
+  let drop = 0;
+  while (drop < points.length && points[drop].timestamp < cutoff) {
+    drop++;
+  }
+  if (drop > 0) {
+    points.splice(0, drop);
+  }
+
+  windows.set(symbol, points);
+};
+
+export const getWindowRange = (symbol: string, since: number): WindowRange | null => {
+  const points = windows.get(symbol);
+  if (!points || points.length === 0) {
+    return null;
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  let oldest = Infinity;
+  for (let i = points.length - 1; i >= 0 && points[i].timestamp >= since; i--) {
+    min = Math.min(min, points[i].price);
+    max = Math.max(max, points[i].price);
+    oldest = points[i].timestamp;
+  }
+
+  return oldest === Infinity ? null : { min, max, oldest };
+};
+
+export const clearWindow = (symbol: string): void => {
+  windows.delete(symbol);
+};
+
+export const clearAllWindows = (): void => {
+  windows.clear();
+};
@@ -0,0 +1,184 @@
+import { MarketSymbol, MarketType, PriceHistoryPoint } from '../../shared/types';
+import { toSymbolId } from '../../shared/symbols';
+import { MarketDataProvider, StreamEvent } from './types';
+import { fetchJson } from './http';
+
+export interface BinanceProviderOptions {
+  id: string;
+  name: string;
+  marketType: MarketType;
+  restBaseUrl: string; // e.g. https://api.binance.com/api/v3
+  streamUrl: string; // e.g. wss://stream.binance.com:9443/ws
+}
+
+// Binance spot and USDⓈ-M futures share the same REST and stream formats,
+// only the hosts, paths and the symbol filter differ.
+export const createBinanceProvider = (options: BinanceProviderOptions): MarketDataProvider => {
+  const { id, name, marketType, restBaseUrl, streamUrl } = options;
+
+  // Decimals of a PRICE_FILTER tickSize such as "0.00001000"
+  const getPricePrecision = (symbol: any): number | undefined => {
+    const priceFilter = (symbol.filters || []).find((filter: any) => filter.filterType === 'PRICE_FILTER');
+    if (!priceFilter || !priceFilter.tickSize) {
+      return undefined;
+    }
+    const decimals = String(priceFilter.tickSize).replace(/0+$/, '').split('.')[1];
+    return decimals ? decimals.length : 0;
+  };
+
+  const getStreamName = (symbol: string): string => {
+    // Stream format: btcusdt@ticker (futures streams use the plain symbol too)
+    return `${symbol.toLowerCase()}@ticker`;
+  };
+
+  const fetchSymbols = async (): Promise<MarketSymbol[]> => {
+    const response = await fetchJson(`${restBaseUrl}/exchangeInfo`);
+    return response.symbols
+      .filter((symbol: any) =>
+        symbol.status === 'TRADING' &&
+        // Futures exchangeInfo also lists delivery contracts
+        (marketType !== 'PERP' || symbol.contractType === 'PERPETUAL')
+      )
+      .map((symbol: any) => ({
+        id: toSymbolId(id, symbol.symbol),
+        symbol: symbol.symbol,
+        providerId: id,
+        baseAsset: symbol.baseAsset,
+        quoteAsset: symbol.quoteAsset,
+        status: symbol.status,
+        marketType,
+        pricePrecision: getPricePrecision(symbol)
+      }));
+  };
+
+  const getKlineStreamName = (symbol: string, interval: string): string => {
+    // Stream format: btcusdt@kline_1m
+    return `${symbol.toLowerCase()}@kline_${interval}`;
+  };
+
+  // Shared by REST klines and kline stream events
+  const toHistoryPoint = (openTime: number, closeTime: number, open: string, high: string, low: string, close: string, volume: string, quoteVolume: string): PriceHistoryPoint => ({
+    open_time: openTime, // Open time
+    timestamp: closeTime + 1, // Close time， display close price, so timestamp should be close time + 1ms
+    price: parseFloat(close), // Close price
+    time: new Date(closeTime + 1).toLocaleTimeString(),
+    open: parseFloat(open),
+    high: parseFloat(high),
+    low: parseFloat(low),
+    close: parseFloat(close),
+    volume: parseFloat(volume),
+    quoteVolume: parseFloat(quoteVolume)
+  });
+
+  const fetchKlines = async (
+    symbol: string,
+    interval: string,
+    startTime: number,
+    limit: number
+  ): Promise<PriceHistoryPoint[]> => {
+    const klines = await fetchJson(
+      `${restBaseUrl}/klines?symbol=${symbol}&interval=${interval}&startTime=${startTime}&limit=${limit}`
+    );
+
+    // [
+    //   [
+    //     1499040000000,      // Kline open time
+    //     "0.01634790",       // Open price
+    //     "0.80000000",       // High price
+    //     "0.01575800",       // Low price
+    //     "0.01577100",       // Close price
+    //     "148976.11427815",  // Volume
+    //     1499644799999,      // Kline Close time
+    //     "2434.19055334",    // Quote asset volume
+    //     308,                // Number of trades
+    //     "1756.87402397",    // Taker buy base asset volume
+    //     "28.46694368",      // Taker buy quote asset volume
+    //     "0"                 // Unused field, ignore.
+    //   ]
+    // ]
+    return klines.map((kline: any[]) =>
+      toHistoryPoint(kline[0], kline[6], kline[1], kline[2], kline[3], kline[4], kline[5], kline[7])
+    );
+  };
+
+  const buildSubscribeMessage = (symbols: string[], requestId: number): string => {
+    return JSON.stringify({
+      method: 'SUBSCRIBE',
+      params: symbols.map(getStreamName),
+      id: requestId
+    });
+  };
+
+  const buildUnsubscribeMessage = (symbols: string[], requestId: number): string => {
+    return JSON.stringify({
+      method: 'UNSUBSCRIBE',
+      params: symbols.map(getStreamName),
+      id: requestId
+    });
+  };
+
+  const buildKlineSubscribeMessage = (symbol: string, interval: string, requestId: number): string => {
+    return JSON.stringify({
+      method: 'SUBSCRIBE',
+      params: [getKlineStreamName(symbol, interval)],
+      id: requestId
+    });
+  };
+
+  const buildKlineUnsubscribeMessage = (symbol: string, interval: string, requestId: number): string => {
+    return JSON.stringify({
+      method: 'UNSUBSCRIBE',
+      params: [getKlineStreamName(symbol, interval)],
+      id: requestId
+    });
+  };
+
+  const parseStreamMessage = (raw: string): StreamEvent | null => {
+    const message = JSON.parse(raw);
+
+    // Handle subscription response
+    if (message.result === null && message.id) {
+      return { type: 'ack', requestId: message.id };
+    }
+
+    // Handle ticker data - both spot and futures use 24hrTicker event
+    if (message.e === '24hrTicker' && message.s && message.c) {
+      return {
+        type: 'ticker',
+        symbol: message.s,
+        price: message.c,
+        priceChangePercent: message.P || '0.00',
+        volume: message.v,
+        quoteVolume: message.q
+      };
+    }
+
+    // Handle kline data - the candle being formed, or the final one when x is true
+    if (message.e === 'kline' && message.s && message.k) {
+      const k = message.k;
+      return {
+        type: 'kline',
+        symbol: message.s,
+        interval: k.i,
+        point: toHistoryPoint(k.t, k.T, k.o, k.h, k.l, k.c, k.v, k.q),
+        closed: k.x === true
+      };
+    }
+
+    return null;
+  };
+
+  return {
+    id,
+    name,
+    marketType,
+    fetchSymbols,
+    fetchKlines,
+    getStreamUrl: () => streamUrl,
+    buildSubscribeMessage,
+    buildUnsubscribeMessage,
+    buildKlineSubscribeMessage,
+    buildKlineUnsubscribeMessage,
+    parseStreamMessage
+  };
+};
@@ -0,0 +1,9 @@
+// Minimal JSON GET helper shared by providers. Works with http:// URLs as well,
+// so providers can be pointed at a local mock server.
+export const fetchJson = async (url: string): Promise<any> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Request to ${url} failed with status ${response.status}`);
+  }
+  return response.json();
+};
@@ -0,0 +1,30 @@
+import { PROVIDERS } from '../../shared/symbols';
+import { MarketDataProvider } from './types';
+import { createBinanceProvider } from './binance';
+
+export type { MarketDataProvider, StreamEvent } from './types';
+
+// Endpoints can be overridden through the environment, e.g. to run against a local
+// mock server: COINWIDGET_BINANCE_REST_URL=http://localhost:8080/api/v3
+const endpoint = (envName: string, fallback: string): string => {
+  return process.env[envName] || fallback;
+};
+
+const providers: MarketDataProvider[] = [
+  createBinanceProvider({
+    ...PROVIDERS['binance'],
+    restBaseUrl: endpoint('COINWIDGET_BINANCE_REST_URL', 'https://api.binance.com/api/v3'),
+    streamUrl: endpoint('COINWIDGET_BINANCE_STREAM_URL', 'wss://stream.binance.com:9443/ws')
+  }),
+  createBinanceProvider({
+    ...PROVIDERS['binance-usdm'],
+    restBaseUrl: endpoint('COINWIDGET_BINANCE_USDM_REST_URL', 'https://fapi.binance.com/fapi/v1'),
+    streamUrl: endpoint('COINWIDGET_BINANCE_USDM_STREAM_URL', 'wss://fstream.binance.com/ws')
+  })
+];
+
+export const getProviders = (): MarketDataProvider[] => providers;
+
+export const getProvider = (providerId: string): MarketDataProvider | undefined => {
+  return providers.find(provider => provider.id === providerId);
+};
@@ -0,0 +1,49 @@
+import { MarketSymbol, MarketType, PriceHistoryPoint } from '../../shared/types';
+
+// A normalized message from a provider's live stream
+export type StreamEvent =
+  | {
+    type: 'ticker';
+    symbol: string; // Exchange symbol, without provider namespace
+    price: string;
+    priceChangePercent: string;
+    volume?: string;
+    quoteVolume?: string;
+  }
+  | {
+    type: 'kline';
+    symbol: string;
+    interval: string;
+    point: PriceHistoryPoint; // Same shape as fetchKlines returns
+    closed: boolean; // False while the candle is still forming
+  }
+  | { type: 'ack'; requestId: number };
+
+/**
+ * A source of market data: symbol discovery, live ticker streaming and kline history.
+ *
+ * Providers only translate between the exchange's wire format and the app's types.
+ * Connections, subscriptions and reconnects are handled by the main process, so a
+ * new exchange only needs to implement this interface and register itself.
+ * All symbols passed in and out are exchange symbols; the main process adds the
+ * provider namespace.
+ */
+export interface MarketDataProvider {
+  readonly id: string;
+  readonly name: string;
+  readonly marketType: MarketType;
+
+  // Symbol discovery
+  fetchSymbols(): Promise<MarketSymbol[]>;
+
+  // Kline history, oldest first
+  fetchKlines(symbol: string, interval: string, startTime: number, limit: number): Promise<PriceHistoryPoint[]>;
+
+  // Live ticker and kline streaming over one connection
+  getStreamUrl(): string;
+  buildSubscribeMessage(symbols: string[], requestId: number): string;
+  buildUnsubscribeMessage(symbols: string[], requestId: number): string;
+  buildKlineSubscribeMessage(symbol: string, interval: string, requestId: number): string;
+  buildKlineUnsubscribeMessage(symbol: string, interval: string, requestId: number): string;
+  parseStreamMessage(raw: string): StreamEvent | null;
+}
@@ -0,0 +1,125 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { PriceData, ReplayState } from '../shared/types';
+import { normalizeSymbolId } from '../shared/symbols';
+
+// Replays recorded ticks (see tickRecorder.ts) in timestamp order, with the original
+// spacing divided by the speed, so a session can be reproduced without any network.
+
+export const REPLAY_SPEEDS = [1, 10, 100];
+
+// Quiet stretches in a recording are shortened to this much wall-clock time
+const MAX_REPLAY_GAP_MS = 5000;
+
+let ticks: PriceData[] = [];
+let index = 0;
+let speed = 1;
+let active = false;
+let timeout: NodeJS.Timeout | null = null;
+let tickHandler: ((tick: PriceData) => void) | null = null;
+let endHandler: (() => void) | null = null;
+
+const isValidTick = (tick: any): tick is PriceData => {
+  return tick &&
+    typeof tick.symbol === 'string' &&
+    typeof tick.price === 'string' &&
+    typeof tick.timestamp === 'number';
+};
+
+// Expand directories into their recorded day files
+const resolveReplayFiles = (paths: string[]): string[] => {
+  return paths.flatMap(filePath => {
+    if (fs.existsSync(filePath) && fs.statSync(filePath).isDirectory()) {
+      return fs.readdirSync(filePath)
+        .filter(file => file.endsWith('.jsonl'))
+        .sort()
+        .map(file => path.join(filePath, file));
+    }
+    return [filePath];
+  });
+};
+
+// Read ticks from JSONL files or directories of them, oldest first
+export const loadReplayTicks = async (paths: string[]): Promise<PriceData[]> => {
+  const loaded: PriceData[] = [];
+
+  for (const filePath of resolveReplayFiles(paths)) {
+    if (!fs.existsSync(filePath)) {
+      console.error(`Replay file not found: ${filePath}`);
+      continue;
+    }
+
+    const lines = readline.createInterface({ input: fs.createReadStream(filePath), crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const tick = JSON.parse(line);
+        if (isValidTick(tick)) {
+          loaded.push({ ...tick, symbol: normalizeSymbolId(tick.symbol) });
+        }
+      } catch {
+        // Skip partial or foreign lines
+      }
+    }
+  }
+
+  // Stable sort keeps the file order for ticks with equal timestamps
+  return loaded.sort((a, b) => a.timestamp - b.timestamp);
+};
+
+const scheduleNext = (): void => {
+  if (!active) {
+    return;
+  }
+  if (index >= ticks.length) {
+    console.log('✓ Replay finished');
+    const onEnd = endHandler;
+    stopReplay();
+    onEnd?.();
+    return;
+  }
+
+  const gap = index === 0 ? 0 : ticks[index].timestamp - ticks[index - 1].timestamp;
+  const delay = Math.min(Math.max(0, gap) / speed, MAX_REPLAY_GAP_MS);
+
+  timeout = setTimeout(() => {
+    tickHandler?.(ticks[index]);
+    index++;
+    scheduleNext();
+  }, delay);
+};
+
+export const startReplay = (
+  replayTicks: PriceData[],
+  onTick: (tick: PriceData) => void,
+  onEnd: () => void
+): void => {
+  stopReplay();
+  ticks = replayTicks;
+  index = 0;
+  tickHandler = onTick;
+  endHandler = onEnd;
+  active = true;
+  console.log(`Replaying ${ticks.length} ticks at ${speed}x`);
+  scheduleNext();
+};
+
+export const stopReplay = (): void => {
+  if (timeout) {
+    clearTimeout(timeout);
+    timeout = null;
+  }
+  active = false;
+  ticks = [];
+  index = 0;
+  tickHandler = null;
+  endHandler = null;
+};
+
+// Takes effect from the next tick on
+export const setReplaySpeed = (replaySpeed: number): void => {
+  speed = replaySpeed > 0 ? replaySpeed : 1;
+};
+
+export const getReplayState = (): ReplayState => ({ active, speed });
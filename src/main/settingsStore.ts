@@ -0,0 +1,151 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Settings, DEFAULT_SETTINGS, WidgetWindowSettings, migrateSettings, validateSettings } from '../shared/settings';
+
+// Single versioned settings document (settings.json). Writes go to a temp file that is
+// renamed over the old one, so a crash mid-write never leaves a truncated document, and
+// a document that fails to parse or validate is backed up before it gets replaced.
+
+const SETTINGS_FILE = 'settings.json';
+
+// Files used before settings.json existed; read once to migrate, then left in place
+const LEGACY_FILES = {
+  watchlist: 'watched-symbols.json',
+  alerts: 'price-alerts.json',
+  chart: 'chart-settings.json',
+  holdings: 'holdings.json',
+  tickRecording: 'tick-recorder.json'
+};
+
+let settingsDir = '';
+let settings: Settings = DEFAULT_SETTINGS;
+
+const getSettingsPath = (): string => path.join(settingsDir, SETTINGS_FILE);
+
+const readLegacyFile = (file: string): any => {
+  const filePath = path.join(settingsDir, file);
+  try {
+    if (fs.existsSync(filePath)) {
+      return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    }
+  } catch (error) {
+    console.error(`Error reading legacy settings file ${file}:`, error);
+  }
+  return undefined;
+};
+
+// Assemble a document from the per-feature files of older versions. Returns null on a
+// fresh install so defaults are used.
+const readLegacySettings = (): any | null => {
+  const watchlist = readLegacyFile(LEGACY_FILES.watchlist);
+  const alerts = readLegacyFile(LEGACY_FILES.alerts);
+  const chart = readLegacyFile(LEGACY_FILES.chart);
+  const holdings = readLegacyFile(LEGACY_FILES.holdings);
+  const tickRecorder = readLegacyFile(LEGACY_FILES.tickRecording);
+
+  if ([watchlist, alerts, chart, holdings, tickRecorder].every(data => data === undefined)) {
+    return null;
+  }
+
+  // Shaped like the first settings.json version, so the regular migrations apply
+  return {
+    version: 1,
+    // An empty list used to mean "use the defaults"
+    watchlist: Array.isArray(watchlist) && watchlist.length > 0 ? watchlist : undefined,
+    // Alerts saved before move alerts existed have no type and are level alerts
+    alerts: Array.isArray(alerts)
+      ? alerts.map((alert: any) => (alert && !alert.type ? { ...alert, type: 'LEVEL' } : alert))
+      : undefined,
+    chart,
+    holdings,
+    tickRecording: tickRecorder ? tickRecorder.enabled === true : undefined
+  };
+};
+
+const backupSettingsFile = (): void => {
+  const backupPath = `${getSettingsPath()}.corrupt-${Date.now()}`;
+  try {
+    fs.copyFileSync(getSettingsPath(), backupPath);
+    console.error(`Backed up settings to ${backupPath}`);
+  } catch (error) {
+    console.error('Error backing up settings:', error);
+  }
+};
+
+const writeSettings = (): void => {
+  const settingsPath = getSettingsPath();
+  const tempPath = `${settingsPath}.tmp`;
+  try {
+    fs.writeFileSync(tempPath, JSON.stringify(settings, null, 2), 'utf-8');
+    fs.renameSync(tempPath, settingsPath);
+  } catch (error) {
+    console.error('Error saving settings:', error);
+  }
+};
+
+/**
+ * Load settings.json from `dir`, migrating it to the current version, or build it from
+ * the legacy files on first start. Invalid values are reported and replaced by defaults.
+ */
+export const initSettingsStore = (dir: string): Settings => {
+  settingsDir = dir;
+  const settingsPath = getSettingsPath();
+
+  if (!fs.existsSync(settingsPath)) {
+    const legacy = readLegacySettings();
+    const { settings: migrated, errors } = validateSettings(legacy ? migrateSettings(legacy).data : DEFAULT_SETTINGS);
+    errors.forEach(error => console.error(`Skipped legacy setting ${error}`));
+    settings = migrated;
+    writeSettings();
+    console.log(legacy ? '✓ Migrated legacy settings files to settings.json' : 'Using default settings');
+    return settings;
+  }
+
+  let data: any;
+  try {
+    data = JSON.parse(fs.readFileSync(settingsPath, 'utf-8'));
+  } catch (error) {
+    console.error('Settings file is not valid JSON:', error);
+    backupSettingsFile();
+    settings = validateSettings(DEFAULT_SETTINGS).settings;
+    writeSettings();
+    return settings;
+  }
+
+  const migration = migrateSettings(data);
+  const validation = migration.errors.length > 0
+    ? { settings: validateSettings(DEFAULT_SETTINGS).settings, errors: migration.errors }
+    : validateSettings(migration.data);
+
+  settings = validation.settings;
+  if (validation.errors.length > 0) {
+    validation.errors.forEach(error => console.error(`Invalid setting ${error}`));
+    // Keep the original so nothing the user had is lost for good
+    backupSettingsFile();
+    writeSettings();
+  } else if (data.version !== settings.version) {
+    writeSettings();
+    console.log(`✓ Migrated settings from version ${data.version ?? 0} to ${settings.version}`);
+  }
+
+  console.log('✓ Loaded settings');
+  return settings;
+};
+
+export const getSettings = (): Settings => settings;
+
+export const updateSettings = (changes: Partial<Omit<Settings, 'version'>>): Settings => {
+  settings = { ...settings, ...changes };
+  writeSettings();
+  return settings;
+};
+
+export const getWindowSettings = (id: string): WidgetWindowSettings | undefined => {
+  return settings.windows.find(window => window.id === id);
+};
+
+export const updateWindowSettings = (id: string, changes: Partial<Omit<WidgetWindowSettings, 'id'>>): Settings => {
+  return updateSettings({
+    windows: settings.windows.map(window => (window.id === id ? { ...window, ...changes } : window))
+  });
+};
@@ -0,0 +1,170 @@
+import { ConnectionState } from '../shared/types';
+import { CONNECTION_CONFIG } from '../shared/config';
+
+export interface StreamConnectionOptions {
+  name: string; // For log messages
+  getUrl: () => string;
+  // Called on every (re)connect, e.g. to subscribe; `reconnected` when data may have been missed
+  onOpen: (reconnected: boolean) => void;
+  onMessage: (data: string) => void;
+  onStateChange: (state: ConnectionState) => void;
+}
+
+export interface StreamConnection {
+  send(data: string): boolean;
+  isOpen(): boolean;
+  getState(): ConnectionState;
+  reconnect(): void; // Replace the socket now, resetting the backoff
+  close(): void; // Close for good, no more reconnects
+}
+
+/**
+ * A WebSocket that keeps itself alive: reconnects with exponential backoff and jitter,
+ * replaces sockets that went silent and renews long-lived connections before the
+ * exchange drops them.
+ */
+export const createStreamConnection = (options: StreamConnectionOptions): StreamConnection => {
+  const { name, getUrl, onOpen, onMessage, onStateChange } = options;
+
+  let socket: WebSocket | null = null;
+  let state: ConnectionState = 'connecting';
+  let attempt = 0; // Failed connects since the last successful one
+  let closed = false;
+  let hasConnected = false; // Whether any socket opened before, so data may have been missed
+  let reconnectTimeout: NodeJS.Timeout | null = null;
+  let staleTimeout: NodeJS.Timeout | null = null;
+  let deadTimeout: NodeJS.Timeout | null = null;
+  let lifetimeTimeout: NodeJS.Timeout | null = null;
+
+  const setState = (next: ConnectionState): void => {
+    if (state !== next) {
+      state = next;
+      onStateChange(next);
+    }
+  };
+
+  const clearTimers = (): void => {
+    [reconnectTimeout, staleTimeout, deadTimeout, lifetimeTimeout].forEach(timeout => {
+      if (timeout) clearTimeout(timeout);
+    });
+    reconnectTimeout = staleTimeout = deadTimeout = lifetimeTimeout = null;
+  };
+
+  // Detach the handlers first: a dead socket may take minutes to report its close
+  const discardSocket = (reason: string): void => {
+    if (!socket) {
+      return;
+    }
+    const old = socket;
+    socket = null;
+    old.onopen = old.onmessage = old.onerror = old.onclose = null;
+    if (old.readyState === WebSocket.OPEN || old.readyState === WebSocket.CONNECTING) {
+      old.close(1000, reason);
+    }
+  };
+
+  // Restart the watchdog; called on open and on every message
+  const resetWatchdog = (): void => {
+    if (staleTimeout) clearTimeout(staleTimeout);
+    if (deadTimeout) clearTimeout(deadTimeout);
+
+    staleTimeout = setTimeout(() => {
+      console.log(`${name} stream: no data for ${CONNECTION_CONFIG.STALE_AFTER_MS / 1000}s, marking stale`);
+      setState('stale');
+    }, CONNECTION_CONFIG.STALE_AFTER_MS);
+
+    deadTimeout = setTimeout(() => {
+      console.log(`${name} stream: no data for ${CONNECTION_CONFIG.RECONNECT_AFTER_MS / 1000}s, reconnecting`);
+      discardSocket('Stale connection');
+      scheduleReconnect();
+    }, CONNECTION_CONFIG.RECONNECT_AFTER_MS);
+  };
+
+  const scheduleReconnect = (): void => {
+    clearTimers();
+    if (closed) {
+      return;
+    }
+
+    // Full jitter: a random delay up to the exponential ceiling, so clients don't reconnect in lockstep
+    const ceiling = Math.min(
+      CONNECTION_CONFIG.MAX_RECONNECT_DELAY_MS,
+      CONNECTION_CONFIG.MIN_RECONNECT_DELAY_MS * Math.pow(2, attempt)
+    );
+    const delay = Math.max(CONNECTION_CONFIG.MIN_RECONNECT_DELAY_MS, Math.round(Math.random() * ceiling));
+    attempt++;
+
+    console.log(`Reconnecting ${name} stream in ${(delay / 1000).toFixed(1)}s (attempt ${attempt})`);
+    setState('reconnecting');
+    reconnectTimeout = setTimeout(() => open(), delay);
+  };
+
+  // A planned renewal replaces a healthy socket within a handshake, so it isn't reported as a reconnect
+  const open = (renewal = false): void => {
+    clearTimers();
+    discardSocket('Reconnecting');
+
+    console.log(`Connecting to ${name} WebSocket stream...`);
+    const current = new WebSocket(getUrl());
+    socket = current;
+
+    current.onopen = () => {
+      console.log(`✓ Connected to ${name} WebSocket stream`);
+      attempt = 0;
+      setState('connected');
+      resetWatchdog();
+
+      // Renew the connection before the exchange's own disconnect
+      lifetimeTimeout = setTimeout(() => {
+        console.log(`Renewing ${name} stream connection`);
+        open(true);
+      }, CONNECTION_CONFIG.MAX_LIFETIME_MS);
+
+      onOpen(hasConnected && !renewal);
+      hasConnected = true;
+    };
+
+    current.onmessage = (event) => {
+      resetWatchdog();
+      setState('connected');
+      onMessage(event.data.toString());
+    };
+
+    current.onerror = (error) => {
+      console.error(`${name} WebSocket error:`, error);
+    };
+
+    current.onclose = (event) => {
+      console.log(`${name} WebSocket connection closed (code: ${event.code}, reason: ${event.reason})`);
+      socket = null;
+      scheduleReconnect();
+    };
+  };
+
+  open();
+
+  return {
+    send: (data: string) => {
+      if (!socket || socket.readyState !== WebSocket.OPEN) {
+        return false;
+      }
+      socket.send(data);
+      return true;
+    },
+    isOpen: () => !!socket && socket.readyState === WebSocket.OPEN,
+    getState: () => state,
+    reconnect: () => {
+      if (closed) {
+        return;
+      }
+      attempt = 0;
+      setState('reconnecting');
+      open();
+    },
+    close: () => {
+      closed = true;
+      clearTimers();
+      discardSocket('Connection no longer needed');
+    }
+  };
+};
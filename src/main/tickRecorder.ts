@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { PriceData } from '../shared/types';
+
+// Opt-in recorder of the normalized tick stream. Ticks are appended to one JSONL file
+// per UTC day (ticks-2024-01-31.jsonl) and can be exported per symbol to CSV.
+// Day files older than MAX_RECORDING_DAYS are deleted at startup and at each day rollover.
+
+const FILE_PREFIX = 'ticks-';
+const FILE_SUFFIX = '.jsonl';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days of recordings kept, today included
+const MAX_RECORDING_DAYS = 30;
+
+let recordingDir = '';
+let enabled = false;
+let stream: fs.WriteStream | null = null;
+let streamDay = ''; // UTC day the open stream writes to
+
+const getDay = (timestamp: number): string => new Date(timestamp).toISOString().slice(0, 10);
+
+const getDayPath = (day: string): string => path.join(recordingDir, `${FILE_PREFIX}${day}${FILE_SUFFIX}`);
+
+// Delete the day files that fell out of the retention window
+const pruneRecordings = (now: number): void => {
+  const oldestKept = `${FILE_PREFIX}${getDay(now - (MAX_RECORDING_DAYS - 1) * DAY_MS)}${FILE_SUFFIX}`;
+  try {
+    fs.readdirSync(recordingDir)
+      .filter(file => file.startsWith(FILE_PREFIX) && file.endsWith(FILE_SUFFIX) && file < oldestKept)
+      .forEach(file => {
+        fs.unlinkSync(path.join(recordingDir, file));
+        console.log(`Deleted tick recording ${file}`);
+      });
+  } catch (error) {
+    console.error('Error pruning tick recordings:', error);
+  }
+};
+
+const closeStream = (): void => {
+  if (stream) {
+    stream.end();
+    stream = null;
+    streamDay = '';
+  }
+};
+
+export const initTickRecorder = (dir: string, recording: boolean): void => {
+  recordingDir = dir;
+  try {
+    fs.mkdirSync(recordingDir, { recursive: true });
+  } catch (error) {
+    console.error('Error creating tick recording directory:', error);
+  }
+  pruneRecordings(Date.now());
+  setRecording(recording);
+};
+
+export const isRecording = (): boolean => enabled;
+
+export const setRecording = (recording: boolean): void => {
+  enabled = recording;
+  if (!enabled) {
+    closeStream();
+  }
+  console.log(`Tick recording ${enabled ? 'enabled' : 'disabled'}`);
+};
+
+export const recordTick = (priceData: PriceData): void => {
+  if (!enabled) {
+    return;
+  }
+
+  // Roll over to a new file at UTC midnight
+  const day = getDay(priceData.timestamp);
+  if (!stream || streamDay !== day) {
+    if (stream) {
+      pruneRecordings(priceData.timestamp);
+    }
+    closeStream();
+    stream = fs.createWriteStream(getDayPath(day), { flags: 'a' });
+    stream.on('error', (error) => console.error('Error writing tick recording:', error));
+    streamDay = day;
+  }
+
+  stream.write(JSON.stringify(priceData) + '\n');
+};
+
+export const stopTickRecorder = (): void => {
+  closeStream();
+};
+
+// Escape a CSV field only when needed
+const csvField = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write the recorded ticks of one symbol between `from` and `to` (inclusive, ms) to a CSV file.
+ * Reads the day files line by line so large recordings don't have to fit in memory.
+ * Returns the number of exported ticks.
+ */
+export const exportTicksToCsv = async (symbolId: string, from: number, to: number, outputPath: string): Promise<number> => {
+  const output = fs.createWriteStream(outputPath);
+  // Listen right away: a path that can't be opened fails while the day files are being read
+  let writeError = null as Error | null;
+  let lines: readline.Interface | null = null;
+  output.on('error', error => {
+    writeError = error;
+    lines?.close(); // Ends the read loop below
+  });
+  output.write('timestamp,time,symbol,price,price_change_percent,volume,quote_volume\n');
+
+  let count = 0;
+  for (let dayStart = from - (from % DAY_MS); dayStart <= to && !writeError; dayStart += DAY_MS) {
+    const dayPath = getDayPath(getDay(dayStart));
+    if (!fs.existsSync(dayPath)) {
+      continue;
+    }
+
+    const input = fs.createReadStream(dayPath);
+    lines = readline.createInterface({ input, crlfDelay: Infinity });
+    for await (const line of lines) {
+      if (writeError) break;
+      if (!line) continue;
+      let tick: PriceData;
+      try {
+        tick = JSON.parse(line);
+      } catch {
+        continue; // Partial line from a crash mid-write
+      }
+      if (tick.symbol !== symbolId || tick.timestamp < from || tick.timestamp > to) {
+        continue;
+      }
+
+      output.write([
+        tick.timestamp,
+        new Date(tick.timestamp).toISOString(),
+        tick.symbol,
+        tick.price,
+        tick.priceChangePercent,
+        tick.volume,
+        tick.quoteVolume
+      ].map(csvField).join(',') + '\n');
+      count++;
+    }
+    input.destroy();
+  }
+
+  if (writeError) {
+    output.destroy();
+    throw writeError;
+  }
+  await new Promise<void>((resolve, reject) => {
+    output.on('error', reject);
+    output.end(resolve);
+  });
+  return count;
+};
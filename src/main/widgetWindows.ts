@@ -0,0 +1,219 @@
+import { BrowserWindow, WebContents, screen } from 'electron';
+import * as path from 'path';
+import { DEFAULT_GROUP_ID, DEFAULT_GROUP_NAME, WidgetWindowSettings } from '../shared/settings';
+import { EventChannel, EventChannels } from '../shared/types';
+import { getSettings, getWindowSettings, updateSettings, updateWindowSettings } from './settingsStore';
+import { fitBoundsToDisplays } from './windowBounds';
+
+// The widget windows, keyed by their id in settings.windows. Each window renders its own
+// watchlist groups; the renderer learns its id from the `windowId` query parameter.
+
+interface WidgetWindow {
+  id: string;
+  window: BrowserWindow;
+  saveBoundsTimer: NodeJS.Timeout | null; // Debounces bounds writes while dragging
+}
+
+const DEFAULT_SIZE = { width: 200, height: 150 };
+
+// New windows open this far down and right of the window they were spawned from
+const CASCADE_OFFSET = 30;
+
+const widgetWindows = new Map<string, WidgetWindow>();
+let quitting = false;
+
+const getWorkAreas = () => screen.getAllDisplays().map(display => display.workArea);
+
+const isAlive = (entry: WidgetWindow | undefined): entry is WidgetWindow => {
+  return !!entry && !entry.window.isDestroyed();
+};
+
+// Window-level display settings; the renderer applies the rest when it gets 'settings-updated'
+const applyDisplaySettings = (window: BrowserWindow): void => {
+  const { alwaysOnTop, opacity } = getSettings().display;
+  if (alwaysOnTop === 'off') {
+    window.setAlwaysOnTop(false);
+  } else {
+    window.setAlwaysOnTop(true, alwaysOnTop);
+  }
+  window.setOpacity(opacity);
+};
+
+export const applyDisplaySettingsToAll = (): void => {
+  widgetWindows.forEach(entry => {
+    if (isAlive(entry)) {
+      applyDisplaySettings(entry.window);
+    }
+  });
+};
+
+const saveWindowBounds = (entry: WidgetWindow): void => {
+  if (entry.saveBoundsTimer) {
+    clearTimeout(entry.saveBoundsTimer);
+    entry.saveBoundsTimer = null;
+  }
+  if (isAlive(entry) && getWindowSettings(entry.id)) {
+    updateWindowSettings(entry.id, { bounds: entry.window.getBounds() });
+  }
+};
+
+const scheduleSaveWindowBounds = (entry: WidgetWindow): void => {
+  if (entry.saveBoundsTimer) {
+    clearTimeout(entry.saveBoundsTimer);
+  }
+  entry.saveBoundsTimer = setTimeout(() => saveWindowBounds(entry), 500);
+};
+
+// Open the window of an entry in settings.windows
+export const createWidgetWindow = (id: string): BrowserWindow => {
+  const iconPath = path.join(__dirname, '..', 'src', 'assets', 'icon.png');
+  const { display } = getSettings();
+  // Saved bounds, moved onto a connected display if their monitor is gone
+  const bounds = fitBoundsToDisplays(getWindowSettings(id)?.bounds || null, DEFAULT_SIZE, getWorkAreas(), screen.getPrimaryDisplay().workArea);
+
+  const window = new BrowserWindow({
+    ...bounds,
+    frame: false,
+    resizable: true,
+    alwaysOnTop: display.alwaysOnTop !== 'off',
+    skipTaskbar: true,
+    transparent: true,
+    minWidth: 200,
+    minHeight: 150,
+    title: 'CoinWidget',
+    icon: iconPath,
+    webPreferences: {
+      // The renderer only gets the typed API of the preload script
+      preload: path.join(__dirname, 'preload.js'),
+      nodeIntegration: false,
+      contextIsolation: true,
+      sandbox: true
+    }
+  });
+  const entry: WidgetWindow = { id, window, saveBoundsTimer: null };
+  widgetWindows.set(id, entry);
+
+  window.setVisibleOnAllWorkspaces(true, { visibleOnFullScreen: true });
+  window.setFullScreenable(false);
+
+  window.loadFile(path.join(__dirname, 'index.html'), { query: { windowId: id } });
+
+  applyDisplaySettings(window);
+
+  // Auto-resizing moves the bounds too, so the saved size is whatever was shown last
+  window.on('move', () => scheduleSaveWindowBounds(entry));
+  window.on('resize', () => scheduleSaveWindowBounds(entry));
+
+  // Ensure window stays on top even when losing focus
+  window.on('blur', () => {
+    if (!window.isDestroyed()) {
+      applyDisplaySettings(window);
+    }
+  });
+
+  window.on('close', (event: any) => {
+    if (!quitting) {
+      event.preventDefault();
+      window.hide();
+    }
+  });
+
+  return window;
+};
+
+// Add a window watching `symbols`, cascaded from the focused (or main) window; the caller
+// retains the symbols
+export const openNewWidgetWindow = (symbols: string[]): BrowserWindow => {
+  const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+  const source = BrowserWindow.getFocusedWindow() || getWidgetWindows()[0];
+  const sourceBounds = source && !source.isDestroyed() ? source.getBounds() : null;
+  const bounds = sourceBounds
+    ? { ...sourceBounds, x: sourceBounds.x + CASCADE_OFFSET, y: sourceBounds.y + CASCADE_OFFSET }
+    : null;
+
+  const settings: WidgetWindowSettings = {
+    id,
+    groups: [{ id: DEFAULT_GROUP_ID, name: DEFAULT_GROUP_NAME, symbols: [...symbols] }],
+    activeGroupId: DEFAULT_GROUP_ID,
+    bounds,
+    lockSize: false
+  };
+  updateSettings({ windows: [...getSettings().windows, settings] });
+  console.log(`Opening widget window ${id}`);
+  return createWidgetWindow(id);
+};
+
+// Close a window for good and forget its settings; the caller releases its symbols first
+export const closeWidgetWindow = (id: string): void => {
+  const entry = widgetWindows.get(id);
+  widgetWindows.delete(id);
+  if (entry?.saveBoundsTimer) {
+    clearTimeout(entry.saveBoundsTimer);
+  }
+  updateSettings({ windows: getSettings().windows.filter(window => window.id !== id) });
+  if (isAlive(entry)) {
+    entry.window.destroy();
+  }
+  console.log(`Closed widget window ${id}`);
+};
+
+export const getWidgetWindows = (): BrowserWindow[] => {
+  return Array.from(widgetWindows.values()).filter(isAlive).map(entry => entry.window);
+};
+
+export const getWidgetWindowCount = (): number => getWidgetWindows().length;
+
+// Id of the window an IPC message came from
+export const getWindowId = (sender: WebContents): string | undefined => {
+  return Array.from(widgetWindows.values()).find(entry => isAlive(entry) && entry.window.webContents === sender)?.id;
+};
+
+export const sendToWindow = <C extends EventChannel>(id: string, channel: C, ...args: EventChannels[C]): void => {
+  const entry = widgetWindows.get(id);
+  if (isAlive(entry)) {
+    entry.window.webContents.send(channel, ...args);
+  }
+};
+
+export const sendToAllWindows = <C extends EventChannel>(channel: C, ...args: EventChannels[C]): void => {
+  widgetWindows.forEach(entry => sendToWindow(entry.id, channel, ...args));
+};
+
+// For changes the sending window already applied itself
+export const sendToOtherWindows = <C extends EventChannel>(senderId: string | undefined, channel: C, ...args: EventChannels[C]): void => {
+  widgetWindows.forEach(entry => {
+    if (entry.id !== senderId) {
+      sendToWindow(entry.id, channel, ...args);
+    }
+  });
+};
+
+export const isAnyWidgetWindowVisible = (): boolean => getWidgetWindows().some(window => window.isVisible());
+
+export const showWidgetWindows = (): void => {
+  getWidgetWindows().forEach(window => window.show());
+  getWidgetWindows()[0]?.focus();
+};
+
+export const hideWidgetWindows = (): void => {
+  getWidgetWindows().forEach(window => window.hide());
+};
+
+// Bring windows back that were on a monitor that got unplugged
+export const fitWidgetWindowsToDisplays = (): void => {
+  const workAreas = getWorkAreas();
+  const primaryWorkArea = screen.getPrimaryDisplay().workArea;
+  getWidgetWindows().forEach(window => {
+    const current = window.getBounds();
+    const fitted = fitBoundsToDisplays(current, current, workAreas, primaryWorkArea);
+    if (fitted !== current) {
+      window.setBounds(fitted);
+    }
+  });
+};
+
+// Let the windows close instead of hiding, keeping their latest bounds
+export const prepareWidgetWindowsForQuit = (): void => {
+  quitting = true;
+  widgetWindows.forEach(saveWindowBounds);
+};
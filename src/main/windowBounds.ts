@@ -0,0 +1,42 @@
+import { Rectangle } from 'electron';
+import { WindowBounds } from '../shared/settings';
+
+// Restoring saved window bounds safely: a position saved on a monitor that has since been
+// unplugged (or a resolution that shrank) must not open the widget where nobody can see it.
+
+// How much of the window's top strip (where the draggable header is) must be on a display
+const MIN_VISIBLE_WIDTH = 100;
+const MIN_VISIBLE_HEIGHT = 40;
+
+// Offset from the work area corner used when the saved position is unusable
+const DEFAULT_OFFSET = 50;
+
+const isReachable = (bounds: WindowBounds, workArea: Rectangle): boolean => {
+  const overlapX = Math.min(bounds.x + bounds.width, workArea.x + workArea.width) - Math.max(bounds.x, workArea.x);
+  const overlapY = Math.min(bounds.y + MIN_VISIBLE_HEIGHT, workArea.y + workArea.height) - Math.max(bounds.y, workArea.y);
+  return overlapX >= MIN_VISIBLE_WIDTH && overlapY >= MIN_VISIBLE_HEIGHT;
+};
+
+/**
+ * Bounds to open the window with. Saved bounds are kept when the header is reachable on one
+ * of `workAreas`; otherwise the window keeps its size (shrunk to fit if needed) and moves to
+ * the top left of `primaryWorkArea`. Without saved bounds the default size is placed there.
+ */
+export const fitBoundsToDisplays = (
+  saved: WindowBounds | null,
+  defaultSize: { width: number; height: number },
+  workAreas: Rectangle[],
+  primaryWorkArea: Rectangle
+): WindowBounds => {
+  if (saved && workAreas.some(workArea => isReachable(saved, workArea))) {
+    return saved;
+  }
+
+  const size = saved || defaultSize;
+  return {
+    x: primaryWorkArea.x + DEFAULT_OFFSET,
+    y: primaryWorkArea.y + DEFAULT_OFFSET,
+    width: Math.min(size.width, primaryWorkArea.width - DEFAULT_OFFSET),
+    height: Math.min(size.height, primaryWorkArea.height - DEFAULT_OFFSET)
+  };
+};
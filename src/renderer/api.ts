@@ -0,0 +1,10 @@
+import { WidgetApi } from '../shared/types';
+
+declare global {
+  interface Window {
+    widgetApi: WidgetApi;
+  }
+}
+
+// The typed IPC bridge exposed by the preload script (src/main/preload.ts)
+export const api = window.widgetApi;
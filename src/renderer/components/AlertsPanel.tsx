@@ -0,0 +1,185 @@
+import React, { useState } from 'react';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faTrash } from '@fortawesome/free-solid-svg-icons';
+import { PriceAlert, NewPriceAlert, AlertType, AlertDirection, AlertMode, MoveDirection } from '../../shared/types';
+import { getMarketType } from '../../shared/symbols';
+
+interface AlertsPanelProps {
+  symbols: string[];
+  alerts: PriceAlert[];
+  getDisplayName: (symbol: string) => string;
+  formatPrice: (symbol: string, price: number) => string;
+  onAdd: (alert: NewPriceAlert) => void;
+  onRemove: (id: string) => void;
+  onClose: () => void;
+}
+
+// Rolling window and cooldown presets for move alerts, in seconds
+const WINDOW_OPTIONS = [60, 5 * 60, 15 * 60, 60 * 60, 4 * 60 * 60];
+const COOLDOWN_OPTIONS = [60, 5 * 60, 15 * 60, 60 * 60];
+
+const formatDuration = (seconds: number): string => {
+  if (seconds % 3600 === 0) return `${seconds / 3600}h`;
+  if (seconds % 60 === 0) return `${seconds / 60}m`;
+  return `${seconds}s`;
+};
+
+const describeAlert = (
+  alert: PriceAlert,
+  formatPrice: (symbol: string, price: number) => string
+): { condition: string; detail: string } => {
+  if (alert.type === 'MOVE') {
+    const sign = alert.direction === 'UP' ? '+' : alert.direction === 'DOWN' ? '−' : '±';
+    return {
+      condition: `${sign}${alert.percent}% in ${formatDuration(alert.windowSeconds)}`,
+      detail: `cooldown ${formatDuration(alert.cooldownSeconds)}`
+    };
+  }
+  return {
+    condition: `${alert.direction === 'ABOVE' ? '≥' : '≤'} ${formatPrice(alert.symbol, alert.price)}`,
+    detail: (alert.mode === 'REARM' ? `re-arm ±${alert.hysteresisPercent}%` : 'once') + (alert.armed ? '' : ' · triggered')
+  };
+};
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ symbols, alerts, getDisplayName, formatPrice, onAdd, onRemove, onClose }) => {
+  const [symbol, setSymbol] = useState(symbols[0] || '');
+  const [type, setType] = useState<AlertType>('LEVEL');
+  const [direction, setDirection] = useState<AlertDirection>('ABOVE');
+  const [price, setPrice] = useState('');
+  const [mode, setMode] = useState<AlertMode>('ONCE');
+  const [hysteresis, setHysteresis] = useState('0.5');
+  const [moveDirection, setMoveDirection] = useState<MoveDirection>('BOTH');
+  const [percent, setPercent] = useState('');
+  const [windowSeconds, setWindowSeconds] = useState(15 * 60);
+  const [cooldownSeconds, setCooldownSeconds] = useState(15 * 60);
+
+  const selectedSymbol = symbols.includes(symbol) ? symbol : symbols[0] || '';
+  const parsedValue = parseFloat(type === 'MOVE' ? percent : price);
+  const canAdd = selectedSymbol !== '' && parsedValue > 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canAdd) return;
+
+    if (type === 'MOVE') {
+      onAdd({
+        type: 'MOVE',
+        symbol: selectedSymbol,
+        direction: moveDirection,
+        percent: parsedValue,
+        windowSeconds,
+        cooldownSeconds
+      });
+      setPercent('');
+    } else {
+      onAdd({
+        type: 'LEVEL',
+        symbol: selectedSymbol,
+        direction,
+        price: parsedValue,
+        mode,
+        hysteresisPercent: mode === 'REARM' ? parseFloat(hysteresis) || 0 : 0
+      });
+      setPrice('');
+    }
+  };
+
+  return (
+    <div className="add-modal alerts-panel">
+      <div className="modal-header">
+        <h4>Price Alerts</h4>
+        <button className="close-modal-btn" onClick={onClose}>×</button>
+      </div>
+      <form className="alert-form" onSubmit={handleSubmit}>
+        <select value={selectedSymbol} onChange={(e) => setSymbol(e.target.value)}>
+          {symbols.map(s => (
+            <option key={s} value={s}>{getDisplayName(s)}{getMarketType(s) === 'PERP' ? ' PERP' : ''}</option>
+          ))}
+        </select>
+        <select value={type} onChange={(e) => setType(e.target.value as AlertType)} title="Alert type">
+          <option value="LEVEL">Price level</option>
+          <option value="MOVE">% move</option>
+        </select>
+        {type === 'LEVEL' ? (
+          <>
+            <select value={direction} onChange={(e) => setDirection(e.target.value as AlertDirection)}>
+              <option value="ABOVE">Above</option>
+              <option value="BELOW">Below</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="any"
+              placeholder="Price"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+            />
+            <select value={mode} onChange={(e) => setMode(e.target.value as AlertMode)} title="Trigger mode">
+              <option value="ONCE">Once</option>
+              <option value="REARM">Re-arm</option>
+            </select>
+            {mode === 'REARM' && (
+              <input
+                type="number"
+                min="0"
+                step="0.1"
+                value={hysteresis}
+                onChange={(e) => setHysteresis(e.target.value)}
+                title="Hysteresis band (%) the price must move back before the alert re-arms"
+              />
+            )}
+          </>
+        ) : (
+          <>
+            <select value={moveDirection} onChange={(e) => setMoveDirection(e.target.value as MoveDirection)}>
+              <option value="BOTH">±</option>
+              <option value="UP">Up</option>
+              <option value="DOWN">Down</option>
+            </select>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              placeholder="%"
+              value={percent}
+              onChange={(e) => setPercent(e.target.value)}
+            />
+            <select value={windowSeconds} onChange={(e) => setWindowSeconds(Number(e.target.value))} title="Window">
+              {WINDOW_OPTIONS.map(seconds => (
+                <option key={seconds} value={seconds}>in {formatDuration(seconds)}</option>
+              ))}
+            </select>
+            <select value={cooldownSeconds} onChange={(e) => setCooldownSeconds(Number(e.target.value))} title="Cooldown">
+              {COOLDOWN_OPTIONS.map(seconds => (
+                <option key={seconds} value={seconds}>cooldown {formatDuration(seconds)}</option>
+              ))}
+            </select>
+          </>
+        )}
+        <button type="submit" className="alert-add-btn" disabled={!canAdd}>Add</button>
+      </form>
+      <div className="symbol-list alert-list">
+        {alerts.length === 0 && (
+          <div className="alert-empty">No alerts</div>
+        )}
+        {alerts.map(alert => {
+          const { condition, detail } = describeAlert(alert, formatPrice);
+          const disarmed = alert.type === 'LEVEL' && !alert.armed;
+          return (
+            <div key={alert.id} className={`symbol-option alert-item ${disarmed ? 'disarmed' : ''}`}>
+              <span className="symbol-name">
+                {getDisplayName(alert.symbol)}{getMarketType(alert.symbol) === 'PERP' ? ' PERP' : ''} {condition}
+              </span>
+              <span className="symbol-pair">{detail}</span>
+              <button className="remove-btn alert-remove-btn" onClick={() => onRemove(alert.id)} title="Delete Alert">
+                <FontAwesomeIcon icon={faTrash} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
@@ -0,0 +1,174 @@
+import React, { useState, useMemo } from 'react';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip, ReferenceLine } from 'recharts';
+import { PriceHistoryPoint } from '../../shared/types';
+import { getMarketType } from '../../shared/symbols';
+
+export interface ComparisonSeries {
+  symbol: string;
+  color: string;
+  data: PriceHistoryPoint[];
+}
+
+interface ComparisonChartProps {
+  series: ComparisonSeries[];
+  getDisplayName: (symbol: string) => string;
+  chartHeight: number;
+}
+
+interface ComparisonRow {
+  timestamp: number;
+  [symbol: string]: number;
+}
+
+// Rebase every series to 0% at the start of the common window and merge them into
+// one row per bucket. Series with a coarser interval carry their last value forward.
+const buildRows = (series: ComparisonSeries[]): ComparisonRow[] => {
+  const withData = series.filter(s => s.data.length > 0);
+  if (withData.length === 0) return [];
+
+  const start = Math.max(...withData.map(s => s.data[0].open_time));
+  const timestamps = Array.from(new Set(
+    withData.flatMap(s => s.data.filter(p => p.open_time >= start).map(p => p.open_time))
+  )).sort((a, b) => a - b);
+
+  const cursors = withData
+    .map(s => ({ series: s, index: s.data.findIndex(p => p.open_time >= start), base: 0, value: 0 }))
+    .filter(cursor => cursor.index !== -1);
+  cursors.forEach(cursor => {
+    cursor.base = cursor.series.data[cursor.index].price;
+  });
+
+  return timestamps.map(timestamp => {
+    const row: ComparisonRow = { timestamp };
+    cursors.forEach(cursor => {
+      const { data } = cursor.series;
+      while (cursor.index < data.length && data[cursor.index].open_time <= timestamp) {
+        cursor.value = (data[cursor.index].price / cursor.base - 1) * 100;
+        cursor.index++;
+      }
+      row[cursor.series.symbol] = cursor.value;
+    });
+    return row;
+  });
+};
+
+const ComparisonChart: React.FC<ComparisonChartProps> = React.memo(({ series, getDisplayName, chartHeight }) => {
+  const [hoveredRow, setHoveredRow] = useState<ComparisonRow | null>(null);
+
+  const rows = useMemo(() => buildRows(series), [series]);
+
+  const formatPercent = (value: number | undefined) => {
+    if (value === undefined) return '–';
+    return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+  };
+
+  const formatTime = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    });
+  };
+
+  // Captures the hovered row for the legend and renders nothing (same approach as PriceChart)
+  const CustomTooltip = ({ active, payload }: any) => {
+    if (active && payload && payload.length > 0) {
+      const row: ComparisonRow = payload[0].payload;
+      if (!hoveredRow || hoveredRow.timestamp !== row.timestamp) {
+        setTimeout(() => {
+          setHoveredRow(row);
+        }, 0);
+      }
+    } else if (hoveredRow !== null) {
+      setTimeout(() => {
+        setHoveredRow(null);
+      }, 0);
+    }
+
+    return null;
+  };
+
+  if (series.length === 0) {
+    return (
+      <div className="chart-placeholder">
+        <p>Select symbols to compare</p>
+      </div>
+    );
+  }
+
+  if (rows.length === 0) {
+    return (
+      <div className="chart-placeholder">
+        <p>Loading comparison...</p>
+      </div>
+    );
+  }
+
+  const legendRow = hoveredRow || rows[rows.length - 1];
+
+  return (
+    <div className="chart-container">
+      <div className="chart-header">
+        <div className="chart-title">
+          <h4>Relative performance</h4>
+        </div>
+        <div className="chart-hover-info">
+          <span className="hover-time">{formatTime(legendRow.timestamp)}</span>
+        </div>
+      </div>
+      <div className="comparison-legend">
+        {series.map(s => (
+          <span key={s.symbol} className="comparison-legend-item" style={{ color: s.color }}>
+            {getDisplayName(s.symbol)}{getMarketType(s.symbol) === 'PERP' ? ' PERP' : ''} {formatPercent(legendRow[s.symbol])}
+          </span>
+        ))}
+      </div>
+      <ResponsiveContainer width="100%" height={chartHeight}>
+        <LineChart
+          data={rows}
+          margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
+        >
+          <XAxis
+            dataKey="timestamp"
+            tick={false}
+            axisLine={false}
+            tickLine={false}
+          />
+          <YAxis
+            domain={['auto', 'auto']}
+            tick={false}
+            axisLine={false}
+            tickLine={false}
+            width={0}
+          />
+          <Tooltip
+            content={CustomTooltip}
+            cursor={{
+              stroke: 'rgba(var(--overlay-rgb), 0.5)',
+              strokeWidth: 1,
+              strokeDasharray: '3 3'
+            }}
+          />
+          <ReferenceLine y={0} stroke="rgba(var(--overlay-rgb), 0.2)" strokeDasharray="2 2" />
+          {series.map(s => (
+            <Line
+              key={s.symbol}
+              type="monotone"
+              dataKey={s.symbol}
+              stroke={s.color}
+              strokeWidth={2}
+              dot={false}
+              activeDot={{ r: 4, fill: s.color, stroke: 'var(--text)', strokeWidth: 1 }}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+});
+
+export default ComparisonChart;
@@ -0,0 +1,53 @@
+import React, { useState } from 'react';
+import { Holding } from '../../shared/types';
+
+interface HoldingEditorProps {
+  holding: Holding | undefined;
+  onSave: (holding: Holding | null) => void;
+  onCancel: () => void;
+}
+
+const HoldingEditor: React.FC<HoldingEditorProps> = ({ holding, onSave, onCancel }) => {
+  const [quantity, setQuantity] = useState(holding ? String(holding.quantity) : '');
+  const [averageCost, setAverageCost] = useState(holding ? String(holding.averageCost) : '');
+
+  const parsedQuantity = parseFloat(quantity);
+  const parsedCost = parseFloat(averageCost);
+  const isValid = parsedQuantity > 0 && parsedCost >= 0;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isValid) {
+      onSave({ quantity: parsedQuantity, averageCost: parsedCost });
+    }
+  };
+
+  return (
+    <form className="holding-editor" onSubmit={handleSubmit} onClick={(e) => e.stopPropagation()}>
+      <input
+        type="number"
+        min="0"
+        step="any"
+        placeholder="Quantity"
+        value={quantity}
+        onChange={(e) => setQuantity(e.target.value)}
+        autoFocus
+      />
+      <input
+        type="number"
+        min="0"
+        step="any"
+        placeholder="Avg cost"
+        value={averageCost}
+        onChange={(e) => setAverageCost(e.target.value)}
+      />
+      <button type="submit" className="alert-add-btn" disabled={!isValid}>Save</button>
+      {holding && (
+        <button type="button" className="alert-add-btn" onClick={() => onSave(null)}>Clear</button>
+      )}
+      <button type="button" className="close-modal-btn" onClick={onCancel}>×</button>
+    </form>
+  );
+};
+
+export default HoldingEditor;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { IndicatorSettings } from '../../shared/types';
+import { MAX_INDICATOR_PERIOD } from '../../shared/settings';
+
+interface IndicatorSettingsPanelProps {
+  settings: IndicatorSettings;
+  onChange: (settings: IndicatorSettings) => void;
+  onClose: () => void;
+}
+
+type IndicatorKey = keyof IndicatorSettings;
+
+// Editable parameters of each indicator, in display order
+const INDICATOR_FIELDS: { key: IndicatorKey; label: string; params: { name: string; label: string; step: number }[] }[] = [
+  { key: 'sma', label: 'SMA', params: [{ name: 'period', label: 'Period', step: 1 }] },
+  { key: 'ema', label: 'EMA', params: [{ name: 'period', label: 'Period', step: 1 }] },
+  {
+    key: 'bollinger',
+    label: 'Bollinger',
+    params: [
+      { name: 'period', label: 'Period', step: 1 },
+      { name: 'stdDev', label: 'σ', step: 0.5 }
+    ]
+  },
+  { key: 'rsi', label: 'RSI', params: [{ name: 'period', label: 'Period', step: 1 }] },
+  {
+    key: 'macd',
+    label: 'MACD',
+    params: [
+      { name: 'fast', label: 'Fast', step: 1 },
+      { name: 'slow', label: 'Slow', step: 1 },
+      { name: 'signal', label: 'Signal', step: 1 }
+    ]
+  }
+];
+
+const IndicatorSettingsPanel: React.FC<IndicatorSettingsPanelProps> = ({ settings, onChange, onClose }) => {
+  const updateIndicator = (key: IndicatorKey, changes: { [field: string]: number | boolean }) => {
+    onChange({ ...settings, [key]: { ...settings[key], ...changes } });
+  };
+
+  // Only values the main process accepts are sent; periods are whole numbers up to MAX_INDICATOR_PERIOD
+  const handleParamChange = (key: IndicatorKey, name: string, step: number, value: string) => {
+    const parsed = step < 1 ? parseFloat(value) : parseInt(value, 10);
+    if (parsed > 0 && (step < 1 || parsed <= MAX_INDICATOR_PERIOD)) {
+      updateIndicator(key, { [name]: parsed });
+    }
+  };
+
+  return (
+    <div className="indicator-settings">
+      <div className="modal-header">
+        <h4>Indicators</h4>
+        <button className="close-modal-btn" onClick={onClose}>×</button>
+      </div>
+      {INDICATOR_FIELDS.map(({ key, label, params }) => {
+        const indicator = settings[key] as { enabled: boolean; [name: string]: number | boolean };
+        return (
+          <div key={key} className="indicator-row">
+            <label className="indicator-toggle">
+              <input
+                type="checkbox"
+                checked={indicator.enabled}
+                onChange={(e) => updateIndicator(key, { enabled: e.target.checked })}
+              />
+              {label}
+            </label>
+            {params.map(param => (
+              <input
+                key={param.name}
+                type="number"
+                min={param.step}
+                max={param.step < 1 ? undefined : MAX_INDICATOR_PERIOD}
+                step={param.step}
+                title={param.label}
+                value={indicator[param.name] as number}
+                onChange={(e) => handleParamChange(key, param.name, param.step, e.target.value)}
+              />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default IndicatorSettingsPanel;
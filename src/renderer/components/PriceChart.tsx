@@ -1,29 +1,93 @@
-import React, { useState, useCallback } from 'react';
-import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from 'recharts';
-import { PriceHistoryPoint } from '../../shared/types';
-import { CHART_CONFIG } from '../../shared/config';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
+import { ComposedChart, BarChart, LineChart, Line, Bar, Cell, XAxis, YAxis, ResponsiveContainer, Tooltip, ReferenceLine } from 'recharts';
+import { PriceHistoryPoint, ChartMode, TimeframeId, IndicatorSettings, MarketSymbol } from '../../shared/types';
+import { CHART_CONFIG, TIMEFRAMES } from '../../shared/config';
+import { IndicatorPoint, IndicatorSeries, updateIndicatorSeries } from '../../shared/indicators';
+import { getDisplayName, getMarketType } from '../../shared/symbols';
+import { formatSymbolPrice } from '../../shared/format';
+import IndicatorSettingsPanel from './IndicatorSettingsPanel';
 
 interface PriceChartProps {
   data: PriceHistoryPoint[];
   symbol: string;
+  info?: MarketSymbol; // Exchange metadata, once known
   color: string;
+  mode: ChartMode;
+  onModeChange: (mode: ChartMode) => void;
+  timeframe: TimeframeId;
+  onTimeframeChange: (timeframe: TimeframeId) => void;
+  indicators: IndicatorSettings;
+  onIndicatorsChange: (settings: IndicatorSettings) => void;
+  chartHeight: number; // Price pane height in pixels
 }
 
-const PriceChart: React.FC<PriceChartProps> = React.memo(({ data, symbol, color }) => {
-  const [hoveredData, setHoveredData] = useState<{ price: number; time: string } | null>(null);
+type ChartPoint = PriceHistoryPoint & IndicatorPoint;
 
-  const getDisplayName = (symbol: string): string => {
-    const binanceSymbol = symbol.replace('PERP', '');
-    return binanceSymbol.replace('USDT', '');
-  };
+// Theme colors (CSS variables from the active theme)
+const UP_COLOR = 'var(--positive)';
+const DOWN_COLOR = 'var(--negative)';
 
-  const getMarketType = (symbol: string): 'SPOT' | 'PERP' => {
-    return symbol.includes('PERP') ? 'PERP' : 'SPOT';
-  };
+const INDICATOR_COLORS = {
+  sma: 'var(--indicator-sma)',
+  ema: 'var(--indicator-ema)',
+  bollinger: 'var(--indicator-bollinger)',
+  rsi: 'var(--indicator-rsi)',
+  macd: 'var(--indicator-macd)',
+  macdSignal: 'var(--indicator-macd-signal)',
+};
+
+// Custom bar shape drawing one candle. The bar spans [low, high], so y/height are the
+// wick in pixels and open/close are interpolated inside it.
+const CandleShape = (props: any) => {
+  const { x, y, width, height, payload } = props;
+  if (!payload || x === undefined || y === undefined) {
+    return null;
+  }
+
+  const { open, close, high, low } = payload as PriceHistoryPoint;
+  const candleColor = close >= open ? UP_COLOR : DOWN_COLOR;
+  const range = high - low;
+  const toY = (value: number) => (range === 0 ? y : y + ((high - value) / range) * height);
+  const bodyTop = toY(Math.max(open, close));
+  const bodyBottom = toY(Math.min(open, close));
+  const centerX = x + width / 2;
+
+  return (
+    <g>
+      <line x1={centerX} x2={centerX} y1={y} y2={y + height} stroke={candleColor} strokeWidth={1} />
+      <rect
+        x={x + width * 0.15}
+        y={bodyTop}
+        width={Math.max(1, width * 0.7)}
+        height={Math.max(1, bodyBottom - bodyTop)}
+        fill={candleColor}
+      />
+    </g>
+  );
+};
+
+const PriceChart: React.FC<PriceChartProps> = React.memo(({
+  data, symbol, info, color, mode, onModeChange, timeframe, onTimeframeChange, indicators, onIndicatorsChange, chartHeight
+}) => {
+  const [hoveredData, setHoveredData] = useState<ChartPoint | null>(null);
+  const [showIndicatorSettings, setShowIndicatorSettings] = useState(false);
+  const indicatorSeriesRef = useRef<IndicatorSeries | null>(null);
+
+  // Merge indicator values into the chart points. The series is kept between renders
+  // so a live tick only recomputes the last candle.
+  const chartData: ChartPoint[] = useMemo(() => {
+    const series = updateIndicatorSeries(indicatorSeriesRef.current, data, indicators);
+    indicatorSeriesRef.current = series;
+    return data.map((point, index) => ({ ...point, ...series.points[index] }));
+  }, [data, indicators]);
+
+  const formatPrice = (price: number) => formatSymbolPrice(price, info);
 
-  const formatPrice = (price: number) => {
-    const decimals = price > 1000 ? 2 : price > 1 ? 3 : 6;
-    return `$${price.toFixed(decimals)}`;
+  const formatVolume = (volume: number) => {
+    if (volume >= 1e9) return `${(volume / 1e9).toFixed(2)}B`;
+    if (volume >= 1e6) return `${(volume / 1e6).toFixed(2)}M`;
+    if (volume >= 1e3) return `${(volume / 1e3).toFixed(2)}K`;
+    return volume.toFixed(2);
   };
 
   const formatTime = (timestamp: number) => {
@@ -42,14 +106,12 @@ const PriceChart: React.FC<PriceChartProps> = React.memo(({ data, symbol, color
     // Don't use useEffect inside the tooltip - it causes infinite re-renders
     // Instead, set state directly during render (which is safe for this case)
     if (active && payload && payload.length > 0) {
-      const data = payload[0].payload;
+      const data: ChartPoint = payload[0].payload;
       // Only update if the data has actually changed to prevent infinite loops
-      if (!hoveredData || hoveredData.price !== data.price || hoveredData.time !== formatTime(data.timestamp)) {
+      if (!hoveredData || hoveredData.price !== data.price || hoveredData.timestamp !== data.timestamp ||
+          hoveredData.high !== data.high || hoveredData.low !== data.low) {
         setTimeout(() => {
-          setHoveredData({
-            price: data.price,
-            time: formatTime(data.timestamp)
-          });
+          setHoveredData(data);
         }, 0);
       }
     } else if (hoveredData !== null) {
@@ -62,16 +124,22 @@ const PriceChart: React.FC<PriceChartProps> = React.memo(({ data, symbol, color
   };
 
   // Calculate dynamic Y-axis domain for better visualization
-  const calculateYDomain = (data: PriceHistoryPoint[]) => {
+  const calculateYDomain = (data: ChartPoint[]) => {
     if (data.length === 0) return [0, 100];
 
-    const prices = data.map(d => d.price);
-    const min = Math.min(...prices);
-    const max = Math.max(...prices);
+    // Candles need room for the wicks, the line only for closes; bands must stay visible too
+    let min = mode === 'candle' ? Math.min(...data.map(d => d.low)) : Math.min(...data.map(d => d.price));
+    let max = mode === 'candle' ? Math.max(...data.map(d => d.high)) : Math.max(...data.map(d => d.price));
+    if (indicators.bollinger.enabled) {
+      data.forEach(d => {
+        if (d.bbLower !== undefined) min = Math.min(min, d.bbLower);
+        if (d.bbUpper !== undefined) max = Math.max(max, d.bbUpper);
+      });
+    }
 
     // Calculate range and add padding
     const range = max - min;
-    const padding = Math.max(range * 0.1, 0.01); // 10% padding or at least $0.01
+    const padding = Math.max(range * 0.1, max * 0.0001); // 10% padding or at least 0.01% of the price
 
     return [min - padding, max + padding];
   };
@@ -79,52 +147,89 @@ const PriceChart: React.FC<PriceChartProps> = React.memo(({ data, symbol, color
   if (data.length === 0) {
     return (
       <div className="chart-placeholder">
-        <p>Loading {getDisplayName(symbol)} chart...</p>
+        <p>Loading {getDisplayName(symbol, info)} chart...</p>
       </div>
     );
   }
 
   const marketType = getMarketType(symbol);
-  const displayName = getDisplayName(symbol);
+  const displayName = getDisplayName(symbol, info);
+  const currentPoint = hoveredData || chartData[chartData.length - 1];
 
   return (
     <div className="chart-container">
+      {showIndicatorSettings && (
+        <IndicatorSettingsPanel
+          settings={indicators}
+          onChange={onIndicatorsChange}
+          onClose={() => setShowIndicatorSettings(false)}
+        />
+      )}
       <div className="chart-header">
         <div className="chart-title">
           <h4>
             {displayName}
+            {info && <span className="quote-asset">/{info.quoteAsset}</span>}
             {marketType === 'PERP' && (
-              <span className="market-badge" style={{
-                marginLeft: '6px',
-                fontSize: '10px',
-                padding: '2px 5px',
-                backgroundColor: '#FF6B00',
-                color: '#fff',
-                borderRadius: '3px',
-                fontWeight: 'bold',
-                verticalAlign: 'middle'
-              }}>
+              <span className="market-badge">
                 PERP
               </span>
             )}
-            {' '}({CHART_CONFIG.HISTORY_HOURS} hours)
           </h4>
         </div>
-        {hoveredData ? (
-          <div className="chart-hover-info">
-            <span className="hover-price" style={{ color }}>{formatPrice(hoveredData.price)}</span>
-            <span className="hover-time">{hoveredData.time}</span>
-          </div>
-        ) : (
-          <div className="chart-hover-info">
-            <span className="hover-price" style={{ color }}>{formatPrice(data[data.length - 1]?.price || 0)}</span>
-            <span className="hover-time">{formatTime(data[data.length - 1]?.timestamp || Date.now())}</span>
-          </div>
-        )}
+        <div className="chart-hover-info">
+          <span className="hover-price" style={{ color }}>{formatPrice(currentPoint.price)}</span>
+          <span className="hover-time">{formatTime(currentPoint.timestamp)}</span>
+        </div>
+      </div>
+      <div className="chart-toolbar">
+        <div className="chart-mode-toggle">
+          {TIMEFRAMES.map(tf => (
+            <button
+              key={tf.id}
+              className={`chart-mode-btn ${timeframe === tf.id ? 'active' : ''}`}
+              onClick={() => onTimeframeChange(tf.id)}
+            >
+              {tf.id}
+            </button>
+          ))}
+        </div>
+        <div className="chart-mode-toggle">
+          <button
+            className={`chart-mode-btn ${showIndicatorSettings ? 'active' : ''}`}
+            onClick={() => setShowIndicatorSettings(!showIndicatorSettings)}
+            title="Indicators"
+          >
+            fx
+          </button>
+          <button
+            className={`chart-mode-btn ${mode === 'line' ? 'active' : ''}`}
+            onClick={() => onModeChange('line')}
+            title="Line"
+          >
+            Line
+          </button>
+          <button
+            className={`chart-mode-btn ${mode === 'candle' ? 'active' : ''}`}
+            onClick={() => onModeChange('candle')}
+            title="Candlestick"
+          >
+            Candle
+          </button>
+        </div>
       </div>
-      <ResponsiveContainer width="100%" height={CHART_CONFIG.CHART_HEIGHT}>
-        <LineChart
-          data={data}
+      {mode === 'candle' && (
+        <div className="chart-ohlc">
+          <span>O {formatPrice(currentPoint.open)}</span>
+          <span>H {formatPrice(currentPoint.high)}</span>
+          <span>L {formatPrice(currentPoint.low)}</span>
+          <span>C {formatPrice(currentPoint.close)}</span>
+        </div>
+      )}
+      <ResponsiveContainer width="100%" height={chartHeight}>
+        <ComposedChart
+          data={chartData}
+          syncId={`price-volume-${symbol}`}
           margin={{ top: 5, right: 5, left: 5, bottom: 5 }}
         >
           <XAxis
@@ -134,7 +239,7 @@ const PriceChart: React.FC<PriceChartProps> = React.memo(({ data, symbol, color
             tickLine={false}
           />
           <YAxis
-            domain={calculateYDomain(data)}
+            domain={calculateYDomain(chartData)}
             scale="linear"
             tick={false}
             axisLine={false}
@@ -149,24 +254,118 @@ const PriceChart: React.FC<PriceChartProps> = React.memo(({ data, symbol, color
               strokeDasharray: '3 3'
             }}
           />
-          <Line
-            type="monotone"
-            dataKey="price"
-            stroke={color}
-            strokeWidth={2}
-            dot={false}
-            activeDot={{
-              r: 6,
-              fill: color,
-              stroke: 'white',
-              strokeWidth: 2,
-              filter: 'drop-shadow(0 2px 4px rgba(0,0,0,0.3))'
-            }}
-            animationDuration={100}
-            isAnimationActive={false}
-          />
-        </LineChart>
+          {mode === 'candle' ? (
+            <Bar
+              dataKey={(point: PriceHistoryPoint) => [point.low, point.high]}
+              shape={CandleShape}
+              isAnimationActive={false}
+            />
+          ) : (
+            <Line
+              type="monotone"
+              dataKey="price"
+              stroke={color}
+              strokeWidth={2}
+              dot={false}
+              activeDot={{
+                r: 6,
+                fill: color,
+                stroke: 'var(--text)',
+                strokeWidth: 2,
+                filter: 'drop-shadow(0 2px 4px rgba(0,0,0,0.3))'
+              }}
+              animationDuration={100}
+              isAnimationActive={false}
+            />
+          )}
+          {indicators.bollinger.enabled && [
+            <Line key="bbUpper" dataKey="bbUpper" stroke={INDICATOR_COLORS.bollinger} strokeWidth={1} dot={false} activeDot={false} isAnimationActive={false} />,
+            <Line key="bbMiddle" dataKey="bbMiddle" stroke={INDICATOR_COLORS.bollinger} strokeWidth={1} strokeDasharray="3 3" dot={false} activeDot={false} isAnimationActive={false} />,
+            <Line key="bbLower" dataKey="bbLower" stroke={INDICATOR_COLORS.bollinger} strokeWidth={1} dot={false} activeDot={false} isAnimationActive={false} />
+          ]}
+          {indicators.sma.enabled && (
+            <Line dataKey="sma" stroke={INDICATOR_COLORS.sma} strokeWidth={1} dot={false} activeDot={false} isAnimationActive={false} />
+          )}
+          {indicators.ema.enabled && (
+            <Line dataKey="ema" stroke={INDICATOR_COLORS.ema} strokeWidth={1} dot={false} activeDot={false} isAnimationActive={false} />
+          )}
+        </ComposedChart>
       </ResponsiveContainer>
+      <div className="volume-pane">
+        <span className="volume-label">Vol {formatVolume(currentPoint.volume)}</span>
+        <ResponsiveContainer width="100%" height={CHART_CONFIG.VOLUME_HEIGHT}>
+          <BarChart
+            data={chartData}
+            syncId={`price-volume-${symbol}`}
+            margin={{ top: 0, right: 5, left: 5, bottom: 0 }}
+          >
+            <XAxis dataKey="timestamp" hide />
+            <YAxis domain={[0, 'dataMax']} hide />
+            <Tooltip content={CustomTooltip} cursor={{ fill: 'rgba(var(--overlay-rgb), 0.08)' }} />
+            <Bar dataKey="volume" isAnimationActive={false}>
+              {chartData.map(point => (
+                <Cell
+                  key={point.open_time}
+                  fill={point.close >= point.open ? UP_COLOR : DOWN_COLOR}
+                  fillOpacity={0.6}
+                />
+              ))}
+            </Bar>
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+      {indicators.rsi.enabled && (
+        <div className="indicator-pane">
+          <span className="volume-label">
+            RSI({indicators.rsi.period}) {currentPoint.rsi !== undefined ? currentPoint.rsi.toFixed(1) : '–'}
+          </span>
+          <ResponsiveContainer width="100%" height={CHART_CONFIG.INDICATOR_HEIGHT}>
+            <LineChart
+              data={chartData}
+              syncId={`price-volume-${symbol}`}
+              margin={{ top: 2, right: 5, left: 5, bottom: 2 }}
+            >
+              <XAxis dataKey="timestamp" hide />
+              <YAxis domain={[0, 100]} hide />
+              <Tooltip content={CustomTooltip} cursor={{ stroke: color, strokeWidth: 1, strokeDasharray: '3 3' }} />
+              <ReferenceLine y={70} stroke="rgba(var(--overlay-rgb), 0.2)" strokeDasharray="2 2" />
+              <ReferenceLine y={30} stroke="rgba(var(--overlay-rgb), 0.2)" strokeDasharray="2 2" />
+              <Line dataKey="rsi" stroke={INDICATOR_COLORS.rsi} strokeWidth={1} dot={false} activeDot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+      {indicators.macd.enabled && (
+        <div className="indicator-pane">
+          <span className="volume-label">
+            MACD({indicators.macd.fast},{indicators.macd.slow},{indicators.macd.signal})
+            {' '}{currentPoint.macd !== undefined ? currentPoint.macd.toPrecision(4) : '–'}
+          </span>
+          <ResponsiveContainer width="100%" height={CHART_CONFIG.INDICATOR_HEIGHT}>
+            <ComposedChart
+              data={chartData}
+              syncId={`price-volume-${symbol}`}
+              margin={{ top: 2, right: 5, left: 5, bottom: 2 }}
+            >
+              <XAxis dataKey="timestamp" hide />
+              <YAxis domain={['auto', 'auto']} hide />
+              <Tooltip content={CustomTooltip} cursor={{ stroke: color, strokeWidth: 1, strokeDasharray: '3 3' }} />
+              <ReferenceLine y={0} stroke="rgba(var(--overlay-rgb), 0.2)" />
+              <Bar dataKey="macdHistogram" isAnimationActive={false}>
+                {chartData.map(point => (
+                  <Cell
+                    key={point.open_time}
+                    fill={(point.macdHistogram || 0) >= 0 ? UP_COLOR : DOWN_COLOR}
+                    fillOpacity={0.5}
+                  />
+                ))}
+              </Bar>
+              <Line dataKey="macd" stroke={INDICATOR_COLORS.macd} strokeWidth={1} dot={false} activeDot={false} isAnimationActive={false} />
+              <Line dataKey="macdSignal" stroke={INDICATOR_COLORS.macdSignal} strokeWidth={1} dot={false} activeDot={false} isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
     </div>
   );
 });
@@ -1,9 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faTrash, faPlus, faSync } from '@fortawesome/free-solid-svg-icons';
-import { PriceData, PriceHistoryPoint, BinanceSymbol } from '../../shared/types';
-import { CHART_CONFIG, CALCULATED_CONFIG } from '../../shared/config';
+import { faTrash, faPlus, faSync, faBell, faCodeCompare, faWallet, faGear } from '@fortawesome/free-solid-svg-icons';
+import { PriceData, PriceHistoryPoint, MarketSymbol, PriceAlert, NewPriceAlert, ChartMode, ChartSettings, TimeframeId, IndicatorSettings, Holding, Holdings, SymbolInfoMap, ConnectionState, ConnectionStates, KlineUpdate, KlineStreamRequest, ReplayState } from '../../shared/types';
+import { CHART_CONFIG, DEFAULT_INDICATORS, SYMBOL_COLORS, getTimeframe, calculateTimeframe } from '../../shared/config';
+import { getDisplayName, getMarketType, getProviderInfo, parseSymbolId, PROVIDERS } from '../../shared/symbols';
+import { getBucketStart, mergeHistory } from '../../shared/history';
+import { formatQuoteAmount, formatSymbolPrice, isDollarQuote } from '../../shared/format';
+import { DEFAULT_SETTINGS, DisplaySettings, MAIN_WINDOW_ID, MAX_NAME_LENGTH, Settings, SettingsUpdate, SettingsUpdateResult, WatchlistGroup, WindowGroups } from '../../shared/settings';
 import PriceChart from './PriceChart';
+import AlertsPanel from './AlertsPanel';
+import ComparisonChart from './ComparisonChart';
+import HoldingEditor from './HoldingEditor';
+import SettingsPanel from './SettingsPanel';
+import { api } from '../api';
+import { CustomTheme, getThemeVariables, resolveTheme } from '../../shared/themes';
 
 interface PriceState {
   [symbol: string]: PriceData | null;
@@ -13,24 +23,99 @@ interface HistoryState {
   [symbol: string]: PriceHistoryPoint[];
 }
 
-const { ipcRenderer } = window.require('electron');
+// Which widget window this is; the main process passes it in the URL
+const WINDOW_ID = new URLSearchParams(window.location.search).get('windowId') || MAIN_WINDOW_ID;
+
+const isSizeLocked = (settings: Settings) => settings.windows.find(w => w.id === WINDOW_ID)?.lockSize ?? false;
+
+const CONNECTION_LABELS: { [state in ConnectionState]: string } = {
+  connecting: 'Connecting',
+  connected: 'Live',
+  stale: 'Stale',
+  reconnecting: 'Reconnecting'
+};
 
 const PriceWidget: React.FC = () => {
-  const [watchedSymbols, setWatchedSymbols] = useState<string[]>([]);
+  const [watchedSymbols, setWatchedSymbols] = useState<string[]>([]); // Symbols of every group, for prices and alerts
+  const [groups, setGroups] = useState<WatchlistGroup[]>([]);
+  const [activeGroupId, setActiveGroupId] = useState<string | null>(null);
+  // Tab name being typed; groupId null means a new group
+  const [groupNameEdit, setGroupNameEdit] = useState<{ groupId: string | null; name: string } | null>(null);
+  const [draggedSymbol, setDraggedSymbol] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
   const [prices, setPrices] = useState<PriceState>({});
   const [priceHistory, setPriceHistory] = useState<HistoryState>({});
+  // Mirrors `priceHistory` for the backfill listener, which is registered once
+  const priceHistoryRef = useRef<HistoryState>({});
+  // Open time of the newest bucket per symbol that came from exchange klines; later buckets
+  // were aggregated from ticker updates and are replaced by a backfill
+  const klineSyncedRef = useRef<{ [symbol: string]: number }>({});
+  // Kline interval streamed per charted symbol; their history follows the kline stream, not the ticker
+  const klineStreamsRef = useRef<{ [symbol: string]: string }>({});
   const [selectedCoin, setSelectedCoin] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareSymbols, setCompareSymbols] = useState<string[]>([]);
+  const [holdings, setHoldings] = useState<Holdings>({});
+  const [editingHolding, setEditingHolding] = useState<string | null>(null);
   const [showAddModal, setShowAddModal] = useState(false);
-  const [availableSymbols, setAvailableSymbols] = useState<BinanceSymbol[]>([]);
+  const [availableSymbols, setAvailableSymbols] = useState<MarketSymbol[]>([]);
+  const [symbolInfo, setSymbolInfo] = useState<SymbolInfoMap>({});
+  const [connectionStates, setConnectionStates] = useState<ConnectionStates>({});
+  const [replayState, setReplayState] = useState<ReplayState>({ active: false, speed: 1 });
+  // Mirrors `replayState.active` for the price update listener, which is registered once
+  const replayActiveRef = useRef(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [isRefreshing, setIsRefreshing] = useState(false);
+  const [showAlertsPanel, setShowAlertsPanel] = useState(false);
+  const [showSettingsPanel, setShowSettingsPanel] = useState(false);
+  const [display, setDisplay] = useState<DisplaySettings>(DEFAULT_SETTINGS.display);
+  // Mirrors `display` for the listeners registered once (default timeframe of unsaved symbols)
+  const displayRef = useRef<DisplaySettings>(DEFAULT_SETTINGS.display);
+  const [symbolColors, setSymbolColors] = useState<{ [symbol: string]: string }>({});
+  const [defaultSymbols, setDefaultSymbols] = useState<string[]>([]);
+  const [sizeLocked, setSizeLocked] = useState(false);
+  const [themeSetting, setThemeSetting] = useState(DEFAULT_SETTINGS.theme);
+  const [customThemes, setCustomThemes] = useState<CustomTheme[]>([]);
+  const [systemDarkMode, setSystemDarkMode] = useState(true);
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [chartMode, setChartMode] = useState<ChartMode>('line');
+  const [timeframes, setTimeframes] = useState<{ [symbol: string]: TimeframeId }>({});
+  // Mirrors `timeframes` for the price update listener, which is registered once
+  const timeframesRef = useRef<{ [symbol: string]: TimeframeId }>({});
+  const [indicators, setIndicators] = useState<{ [symbol: string]: IndicatorSettings }>({});
+  // Last rolling 24h volumes seen per symbol, used to turn ticker volume into per-bucket deltas
+  const tickerVolumesRef = useRef<{ [symbol: string]: { volume: number; quoteVolume: number } }>({});
 
   // Load watched symbols and historical data on component mount
   useEffect(() => {
     const loadWatchedSymbols = async () => {
       try {
-        const symbols = await ipcRenderer.invoke('get-watched-symbols');
+        const settings: Settings = await api.invoke('get-settings');
+        const symbols = await api.invoke('get-watched-symbols');
+        const windowGroups: WindowGroups | null = await api.invoke('get-watchlist-groups');
+        const chartSettings: ChartSettings = await api.invoke('get-chart-settings');
+        displayRef.current = settings.display;
+        setDisplay(settings.display);
+        setSymbolColors(settings.colors);
+        setDefaultSymbols(settings.defaultSymbols);
+        setSizeLocked(isSizeLocked(settings));
+        setThemeSetting(settings.theme);
+        setCustomThemes(settings.customThemes);
+        setSystemDarkMode(await api.invoke('get-system-dark-mode'));
         setWatchedSymbols(symbols);
+        applyGroups(windowGroups);
+
+        // Restore each symbol's saved timeframe and indicators before loading its history
+        const savedTimeframes: { [symbol: string]: TimeframeId } = {};
+        const savedIndicators: { [symbol: string]: IndicatorSettings } = {};
+        Object.keys(chartSettings).forEach(symbol => {
+          const { timeframe, indicators } = chartSettings[symbol];
+          if (timeframe) savedTimeframes[symbol] = timeframe;
+          if (indicators) savedIndicators[symbol] = indicators;
+        });
+        timeframesRef.current = savedTimeframes;
+        setTimeframes(savedTimeframes);
+        setIndicators(savedIndicators);
 
         // Initialize price and history states
         const initialPrices: PriceState = {};
@@ -52,71 +137,237 @@ const PriceWidget: React.FC = () => {
     loadWatchedSymbols();
   }, []);
 
-  // Helper to determine market type and construct API URL
-  const getMarketType = (symbol: string): 'SPOT' | 'PERP' => {
-    return symbol.includes('PERP') ? 'PERP' : 'SPOT';
-  };
+  // Load base/quote assets of watched symbols; the main process resolves missing ones in the background
+  useEffect(() => {
+    api.invoke('get-symbol-info')
+      .then((loaded: SymbolInfoMap) => setSymbolInfo(loaded))
+      .catch((error: any) => console.error('Failed to load symbol info:', error));
 
-  const getBinanceSymbol = (symbol: string): string => {
-    // Symbol is already in full format (e.g., BTCUSDT or BTCUSDTPERP)
-    // For PERP, remove the PERP suffix for API calls
-    return symbol.replace('PERP', '');
-  };
+    const handleSymbolInfoUpdated = (updated: SymbolInfoMap) => {
+      setSymbolInfo(updated);
+    };
+
+    const removeSymbolInfoUpdatedListener = api.on('symbol-info-updated', handleSymbolInfoUpdated);
+
+    return () => {
+      removeSymbolInfoUpdatedListener();
+    };
+  }, []);
+
+  // Track the stream connection of each provider for the status badge
+  useEffect(() => {
+    api.invoke('get-connection-state')
+      .then((loaded: ConnectionStates) => setConnectionStates(loaded))
+      .catch((error: any) => console.error('Failed to load connection state:', error));
+
+    const handleConnectionState = (updated: ConnectionStates) => {
+      setConnectionStates(updated);
+    };
+
+    const removeConnectionStateListener = api.on('connection-state', handleConnectionState);
+
+    return () => {
+      removeConnectionStateListener();
+    };
+  }, []);
+
+  // Replay mode: charts are rebuilt from the replayed ticks, then reloaded when live data resumes
+  useEffect(() => {
+    const applyReplayState = (state: ReplayState) => {
+      const wasActive = replayActiveRef.current;
+      replayActiveRef.current = state.active;
+      setReplayState(state);
+
+      if (state.active && !wasActive) {
+        tickerVolumesRef.current = {};
+        klineSyncedRef.current = {};
+        setPrices(prev => {
+          const cleared: PriceState = {};
+          Object.keys(prev).forEach(symbol => { cleared[symbol] = null; });
+          return cleared;
+        });
+        setPriceHistory(prev => {
+          const cleared: HistoryState = {};
+          Object.keys(prev).forEach(symbol => { cleared[symbol] = []; });
+          return cleared;
+        });
+      } else if (!state.active && wasActive) {
+        tickerVolumesRef.current = {};
+        loadHistoricalData(Object.keys(priceHistoryRef.current));
+      }
+    };
+
+    api.invoke('get-replay-state')
+      .then(applyReplayState)
+      .catch((error: any) => console.error('Failed to load replay state:', error));
+
+    const handleReplayState = (state: ReplayState) => {
+      applyReplayState(state);
+    };
+
+    const removeReplayStateListener = api.on('replay-state', handleReplayState);
+
+    return () => {
+      removeReplayStateListener();
+    };
+  }, []);
+
+  // Load portfolio holdings and follow changes made in other windows
+  useEffect(() => {
+    api.invoke('get-holdings')
+      .then((loaded: Holdings) => setHoldings(loaded))
+      .catch((error: any) => console.error('Failed to load holdings:', error));
+
+    const removeHoldingsUpdatedListener = api.on('holdings-updated', setHoldings);
+
+    return () => {
+      removeHoldingsUpdatedListener();
+    };
+  }, []);
+
+  // Timeframes and indicators are per symbol, so a change in another window applies here too
+  useEffect(() => {
+    const handleChartSettingsUpdated = (chartSettings: ChartSettings) => {
+      const updatedTimeframes: { [symbol: string]: TimeframeId } = {};
+      const updatedIndicators: { [symbol: string]: IndicatorSettings } = {};
+      Object.keys(chartSettings).forEach(symbol => {
+        const { timeframe, indicators } = chartSettings[symbol];
+        if (timeframe) updatedTimeframes[symbol] = timeframe;
+        if (indicators) updatedIndicators[symbol] = indicators;
+      });
+
+      // Reload the symbols shown here whose timeframe changed
+      const affected = Object.keys(priceHistoryRef.current).filter(symbol => (
+        getTimeframe(updatedTimeframes[symbol], displayRef.current.defaultTimeframe).id !== getSymbolTimeframe(symbol).id
+      ));
+      timeframesRef.current = updatedTimeframes;
+      setTimeframes(updatedTimeframes);
+      setIndicators(updatedIndicators);
+      if (affected.length > 0) {
+        setPriceHistory(prev => {
+          const next = { ...prev };
+          affected.forEach(symbol => { next[symbol] = []; });
+          return next;
+        });
+        loadHistoricalData(affected);
+      }
+    };
+
+    const removeChartSettingsUpdatedListener = api.on('chart-settings-updated', handleChartSettingsUpdated);
+
+    return () => {
+      removeChartSettingsUpdatedListener();
+    };
+  }, []);
+
+  // Load price alerts and keep them in sync with triggers from the main process
+  useEffect(() => {
+    api.invoke('get-alerts')
+      .then((loaded: PriceAlert[]) => setAlerts(loaded))
+      .catch((error: any) => console.error('Failed to load alerts:', error));
+
+    const handleAlertsUpdated = (updated: PriceAlert[]) => {
+      setAlerts(updated);
+    };
+
+    const removeAlertsUpdatedListener = api.on('alerts-updated', handleAlertsUpdated);
+
+    return () => {
+      removeAlertsUpdatedListener();
+    };
+  }, []);
+
+  // Settings are owned by the main process, which pushes every change (also from other triggers)
+  useEffect(() => {
+    const handleSettingsUpdated = (settings: Settings) => {
+      const previousDefault = displayRef.current.defaultTimeframe;
+      displayRef.current = settings.display;
+      setDisplay(settings.display);
+      setSymbolColors(settings.colors);
+      setDefaultSymbols(settings.defaultSymbols);
+      setSizeLocked(isSizeLocked(settings));
+      setThemeSetting(settings.theme);
+      setCustomThemes(settings.customThemes);
+      // Switching to the 'system' theme hands the dark mode back to the OS
+      api.invoke('get-system-dark-mode').then(setSystemDarkMode);
+
+      // Symbols without a saved timeframe follow the default; reload them on the new one
+      if (settings.display.defaultTimeframe !== previousDefault) {
+        const affected = Object.keys(priceHistoryRef.current).filter(symbol => !timeframesRef.current[symbol]);
+        setPriceHistory(prev => {
+          const next = { ...prev };
+          affected.forEach(symbol => { next[symbol] = []; });
+          return next;
+        });
+        loadHistoricalData(affected);
+      }
+    };
 
-  const getDisplayName = (symbol: string): string => {
-    // Extract base asset for display
-    const binanceSymbol = getBinanceSymbol(symbol);
-    return binanceSymbol.replace('USDT', '');
+    const handleOpenSettings = () => {
+      setShowSettingsPanel(true);
+    };
+
+    const handleSystemDarkMode = (darkMode: boolean) => {
+      setSystemDarkMode(darkMode);
+    };
+
+    const removeSettingsUpdatedListener = api.on('settings-updated', handleSettingsUpdated);
+    const removeOpenSettingsListener = api.on('open-settings', handleOpenSettings);
+    const removeSystemDarkModeListener = api.on('system-dark-mode-updated', handleSystemDarkMode);
+
+    return () => {
+      removeSettingsUpdatedListener();
+      removeOpenSettingsListener();
+      removeSystemDarkModeListener();
+    };
+  }, []);
+
+  const theme = resolveTheme(themeSetting, customThemes, systemDarkMode);
+
+  // The stylesheet only uses the theme's CSS variables, set here on the document root
+  useEffect(() => {
+    const variables = getThemeVariables(theme.colors, display.backgroundOpacity);
+    Object.keys(variables).forEach(name => document.documentElement.style.setProperty(name, variables[name]));
+  }, [theme, display.backgroundOpacity]);
+
+  const getSymbolTimeframe = (symbol: string) => {
+    return getTimeframe(timeframesRef.current[symbol], displayRef.current.defaultTimeframe);
   };
 
   const loadHistoricalData = async (symbols: string[]) => {
     console.log('Loading historical data...');
 
     const now = Date.now();
-    const historyStartTime = now - CALCULATED_CONFIG.HISTORY_MS;
+    const requests = symbols.map(symbol => {
+      const timeframe = getSymbolTimeframe(symbol);
+      const { HISTORY_MS, MAX_DATA_POINTS } = calculateTimeframe(timeframe);
+      return { symbol, interval: timeframe.klineInterval, startTime: now - HISTORY_MS, limit: MAX_DATA_POINTS };
+    });
 
-    for (const symbol of symbols) {
+    // Render right away from the main process's disk cache...
+    for (const { symbol, interval, startTime, limit } of requests) {
       try {
-        const marketType = getMarketType(symbol);
-        const binanceSymbol = getBinanceSymbol(symbol);
-
-        // Use different API endpoints for spot vs perpetual futures
-        const baseUrl = marketType === 'PERP'
-          ? 'https://fapi.binance.com/fapi/v1'
-          : 'https://api.binance.com/api/v3';
-
-        // Binance Klines API for configured interval and history duration
-        const response = await fetch(
-          `${baseUrl}/klines?symbol=${binanceSymbol}&interval=${CHART_CONFIG.BINANCE_INTERVAL}&startTime=${historyStartTime}&limit=${CALCULATED_CONFIG.MAX_DATA_POINTS}`
-        );
-
-        // [
-        //   [
-        //     1499040000000,      // Kline open time
-        //     "0.01634790",       // Open price
-        //     "0.80000000",       // High price
-        //     "0.01575800",       // Low price
-        //     "0.01577100",       // Close price
-        //     "148976.11427815",  // Volume
-        //     1499644799999,      // Kline Close time
-        //     "2434.19055334",    // Quote asset volume
-        //     308,                // Number of trades
-        //     "1756.87402397",    // Taker buy base asset volume
-        //     "28.46694368",      // Taker buy quote asset volume
-        //     "0"                 // Unused field, ignore.
-        //   ]
-        // ]
-
-        if (response.ok) {
-          const klines = await response.json();
-          const historicalPoints = klines.map((kline: any[]) => ({
-            open_time: kline[0], // Open time
-            timestamp: kline[6] + 1, // Close time， display close price, so timestamp should be close time + 1ms
-            price: parseFloat(kline[4]), // Close price
-            time: new Date(kline[4] + 1).toLocaleTimeString()
+        const cachedPoints: PriceHistoryPoint[] = await api.invoke('get-cached-history', symbol, interval, startTime, limit);
+        // A replay builds its charts from the replayed ticks alone
+        if (cachedPoints.length > 0 && !replayActiveRef.current) {
+          setPriceHistory(prev => ({
+            ...prev,
+            [symbol]: cachedPoints
           }));
+        }
+      } catch (error) {
+        console.error(`Failed to load cached history for ${symbol}:`, error);
+      }
+    }
+
+    // ...then let it download the missing tail from the symbol's provider
+    for (const { symbol, interval, startTime, limit } of requests) {
+      try {
+        const historicalPoints: PriceHistoryPoint[] = await api.invoke('get-history', symbol, interval, startTime, limit);
 
+        if (historicalPoints.length > 0 && !replayActiveRef.current) {
           console.log(`Loaded ${historicalPoints.length} historical points for ${symbol}`);
+          klineSyncedRef.current[symbol] = historicalPoints[historicalPoints.length - 1].open_time;
 
           setPriceHistory(prev => ({
             ...prev,
@@ -129,11 +380,67 @@ const PriceWidget: React.FC = () => {
     }
   };
 
+  // Fetch the klines missed during a disconnect or sleep and splice them into the history
+  const backfillHistory = async (symbols: string[]) => {
+    const now = Date.now();
+
+    for (const symbol of symbols) {
+      try {
+        const timeframe = getSymbolTimeframe(symbol);
+        const { HISTORY_MS, MAX_DATA_POINTS } = calculateTimeframe(timeframe);
+        const history = priceHistoryRef.current[symbol] || [];
+        const lastPoint = history[history.length - 1];
+
+        // From the last exchange kline on (refetched too since it may have been partial),
+        // replacing the buckets aggregated from ticker updates since then
+        const syncedUntil = klineSyncedRef.current[symbol] ?? (lastPoint ? lastPoint.open_time : 0);
+        const startTime = Math.max(syncedUntil, now - HISTORY_MS);
+
+        const missingPoints: PriceHistoryPoint[] = await api.invoke(
+          'get-history',
+          symbol,
+          timeframe.klineInterval,
+          startTime,
+          MAX_DATA_POINTS
+        );
+
+        if (missingPoints.length > 0 && !replayActiveRef.current) {
+          console.log(`Backfilled ${missingPoints.length} points for ${symbol}`);
+          klineSyncedRef.current[symbol] = missingPoints[missingPoints.length - 1].open_time;
+
+          setPriceHistory(prev => ({
+            ...prev,
+            [symbol]: mergeHistory(prev[symbol] || [], missingPoints, MAX_DATA_POINTS)
+          }));
+        }
+      } catch (error) {
+        console.error(`Failed to backfill history for ${symbol}:`, error);
+      }
+    }
+  };
+
+  useEffect(() => {
+    priceHistoryRef.current = priceHistory;
+  }, [priceHistory]);
+
+  // The main process reports a gap after a stream reconnect (including after sleep)
+  useEffect(() => {
+    const handleHistoryGap = (symbols: string[]) => {
+      backfillHistory(symbols);
+    };
+
+    const removeHistoryGapListener = api.on('history-gap', handleHistoryGap);
+
+    return () => {
+      removeHistoryGapListener();
+    };
+  }, []);
+
   // Load available symbols for adding new ones
   useEffect(() => {
     const loadAvailableSymbols = async () => {
       try {
-        const symbols = await ipcRenderer.invoke('get-binance-symbols');
+        const symbols = await api.invoke('get-market-symbols');
         setAvailableSymbols(symbols);
       } catch (error) {
         console.error('Failed to load available symbols:', error);
@@ -145,112 +452,272 @@ const PriceWidget: React.FC = () => {
     }
   }, [showAddModal]);
 
-  // Handle adding a symbol
+  // Show the groups the main process answered with; the chart and comparison only keep
+  // symbols of the visible tab
+  const applyGroups = (windowGroups: WindowGroups | null) => {
+    if (!windowGroups) return;
+    const visible = windowGroups.groups.find(g => g.id === windowGroups.activeGroupId)?.symbols || [];
+    setGroups(windowGroups.groups);
+    setActiveGroupId(windowGroups.activeGroupId);
+    setSelectedCoin(prev => (prev && visible.includes(prev) ? prev : null));
+    setCompareSymbols(prev => prev.filter(s => visible.includes(s)));
+  };
+
+  // Drop the state of symbols that are in no group of this window anymore
+  const clearSymbolStates = (symbols: string[]) => {
+    if (symbols.length === 0) return;
+    const removed = (symbol: string) => symbols.includes(symbol);
+    const without = <T,>(state: { [symbol: string]: T }) => {
+      const next = { ...state };
+      symbols.forEach(symbol => delete next[symbol]);
+      return next;
+    };
+
+    setPrices(prev => without(prev));
+    setPriceHistory(prev => without(prev));
+    setSelectedCoin(prev => (prev && removed(prev) ? null : prev));
+    setCompareSymbols(prev => prev.filter(s => !removed(s)));
+    // Holdings and alerts stay while another window watches the symbol; the main process
+    // pushes the lists without them once no window does
+  };
+
+  // Handle adding a symbol to the visible tab
   const handleAddSymbol = async (fullSymbol: string) => {
     try {
-      const success = await ipcRenderer.invoke('add-symbol', fullSymbol);
+      const success = await api.invoke('add-symbol', fullSymbol, activeGroupId);
       if (success) {
-        const updatedSymbols = await ipcRenderer.invoke('get-watched-symbols');
+        const updatedSymbols = await api.invoke('get-watched-symbols');
         setWatchedSymbols(updatedSymbols);
-
-        // Initialize states for new symbol
-        setPrices(prev => ({ ...prev, [fullSymbol]: null }));
-        setPriceHistory(prev => ({ ...prev, [fullSymbol]: [] }));
-
-        // Load historical data for new symbol
-        await loadHistoricalData([fullSymbol]);
+        applyGroups(await api.invoke('get-watchlist-groups'));
+        setSymbolInfo(await api.invoke('get-symbol-info'));
 
         setShowAddModal(false);
         setSearchTerm('');
+
+        // A symbol that another tab already shows has its prices and history
+        if (!watchedSymbols.includes(fullSymbol)) {
+          // Initialize states for new symbol
+          setPrices(prev => ({ ...prev, [fullSymbol]: null }));
+          setPriceHistory(prev => ({ ...prev, [fullSymbol]: [] }));
+
+          // Load historical data for new symbol
+          await loadHistoricalData([fullSymbol]);
+        }
       }
     } catch (error) {
       console.error('Failed to add symbol:', error);
     }
   };
 
-  // Handle removing a symbol
+  // Handle removing a symbol from the visible tab; it stays watched while another tab has it
   const handleRemoveSymbol = async (symbol: string) => {
     try {
-      const success = await ipcRenderer.invoke('remove-symbol', symbol);
+      const success = await api.invoke('remove-symbol', symbol, activeGroupId);
       if (success) {
-        const updatedSymbols = await ipcRenderer.invoke('get-watched-symbols');
+        const updatedSymbols: string[] = await api.invoke('get-watched-symbols');
         setWatchedSymbols(updatedSymbols);
+        applyGroups(await api.invoke('get-watchlist-groups'));
+        clearSymbolStates(updatedSymbols.includes(symbol) ? [] : [symbol]);
+      }
+    } catch (error) {
+      console.error('Failed to remove symbol:', error);
+    }
+  };
 
-        // Remove from states
-        setPrices(prev => {
-          const newPrices = { ...prev };
-          delete newPrices[symbol];
-          return newPrices;
-        });
-        setPriceHistory(prev => {
-          const newHistory = { ...prev };
-          delete newHistory[symbol];
-          return newHistory;
+  // Move the dragged row to the position of the row it was dropped on
+  const handleDropSymbol = async (target: string) => {
+    const dragged = draggedSymbol;
+    setDraggedSymbol(null);
+    setDropTarget(null);
+    if (!dragged || dragged === target || !activeGroupId) return;
+
+    const order = activeSymbols.filter(symbol => symbol !== dragged);
+    order.splice(activeSymbols.indexOf(target), 0, dragged);
+
+    // Show the new order right away; the main process answers with what it saved
+    setGroups(prev => prev.map(g => (g.id === activeGroupId ? { ...g, symbols: order } : g)));
+    try {
+      const windowGroups: WindowGroups | null = await api.invoke('reorder-symbols', order, activeGroupId);
+      applyGroups(windowGroups || await api.invoke('get-watchlist-groups'));
+    } catch (error) {
+      console.error('Failed to reorder symbols:', error);
+    }
+  };
+
+  const handleSelectGroup = async (groupId: string) => {
+    if (groupId === activeGroupId) return;
+    try {
+      applyGroups(await api.invoke('set-active-watchlist-group', groupId));
+      setEditingHolding(null);
+    } catch (error) {
+      console.error('Failed to switch watchlist group:', error);
+    }
+  };
+
+  // Adds a group, or renames one, from the tab name input
+  const handleSaveGroupName = async () => {
+    if (!groupNameEdit) return;
+    const { groupId, name } = groupNameEdit;
+    setGroupNameEdit(null);
+    if (!name.trim()) return;
+    try {
+      applyGroups(groupId
+        ? await api.invoke('rename-watchlist-group', groupId, name)
+        : await api.invoke('add-watchlist-group', name));
+    } catch (error) {
+      console.error('Failed to save watchlist group:', error);
+    }
+  };
+
+  const handleRemoveGroup = async (groupId: string) => {
+    try {
+      const windowGroups: WindowGroups | null = await api.invoke('remove-watchlist-group', groupId);
+      if (windowGroups) {
+        const updatedSymbols: string[] = await api.invoke('get-watched-symbols');
+        clearSymbolStates(watchedSymbols.filter(symbol => !updatedSymbols.includes(symbol)));
+        setWatchedSymbols(updatedSymbols);
+        applyGroups(windowGroups);
+      }
+    } catch (error) {
+      console.error('Failed to remove watchlist group:', error);
+    }
+  };
+
+  const handleSaveHolding = async (symbol: string, holding: Holding | null) => {
+    try {
+      const success = await api.invoke('set-holding', symbol, holding);
+      if (success) {
+        setHoldings(prev => {
+          const newHoldings = { ...prev };
+          if (holding) {
+            newHoldings[symbol] = holding;
+          } else {
+            delete newHoldings[symbol];
+          }
+          return newHoldings;
         });
+        setEditingHolding(null);
+      }
+    } catch (error) {
+      console.error('Failed to save holding:', error);
+    }
+  };
 
-        // Clear selection if removed symbol was selected
-        if (selectedCoin === symbol) {
-          setSelectedCoin(null);
-        }
+  const handleAddAlert = async (input: NewPriceAlert) => {
+    try {
+      const alert = await api.invoke('add-alert', input);
+      if (alert) {
+        setAlerts(prev => [...prev, alert]);
       }
     } catch (error) {
-      console.error('Failed to remove symbol:', error);
+      console.error('Failed to add alert:', error);
+    }
+  };
+
+  const handleRemoveAlert = async (id: string) => {
+    try {
+      const success = await api.invoke('remove-alert', id);
+      if (success) {
+        setAlerts(prev => prev.filter(alert => alert.id !== id));
+      }
+    } catch (error) {
+      console.error('Failed to remove alert:', error);
     }
   };
 
   useEffect(() => {
-    const handlePriceUpdate = (event: any, data: { symbol: string; data: PriceData }) => {
+    const handlePriceUpdate = (data: { symbol: string; data: PriceData }) => {
       const symbol = data.symbol;
       const price = parseFloat(data.data.price);
       const timestamp = data.data.timestamp;
 
+      // The ticker only carries rolling 24h volume; the traded volume since the last tick
+      // is the difference. It can shrink when old trades leave the 24h window, so clamp at 0.
+      let volumeDelta = 0;
+      let quoteVolumeDelta = 0;
+      if (data.data.volume !== undefined && data.data.quoteVolume !== undefined) {
+        const volume = parseFloat(data.data.volume);
+        const quoteVolume = parseFloat(data.data.quoteVolume);
+        const previous = tickerVolumesRef.current[symbol];
+        if (previous) {
+          volumeDelta = Math.max(0, volume - previous.volume);
+          quoteVolumeDelta = Math.max(0, quoteVolume - previous.quoteVolume);
+        }
+        tickerVolumesRef.current[symbol] = { volume, quoteVolume };
+      }
+
       // Update current price
       setPrices(prev => ({
         ...prev,
         [symbol]: data.data
       }));
 
+      // Charted symbols get exact candles from their kline stream instead (none during replay)
+      if (klineStreamsRef.current[symbol] && !replayActiveRef.current) {
+        return;
+      }
+
       // Update price history with smart frequency control
       setPriceHistory(prev => {
         const currentHistory = prev[symbol] || [];
         const lastPoint = currentHistory[currentHistory.length - 1];
 
+        const { INTERVAL_MS, MAX_DATA_POINTS } = calculateTimeframe(getSymbolTimeframe(symbol));
+        const bucketStart = getBucketStart(timestamp, INTERVAL_MS);
+
         // If no previous points, always add the first one
         if (!lastPoint) {
           return {
             ...prev,
             [symbol]: [{
-              open_time: timestamp,
+              open_time: bucketStart,
               timestamp,
               price,
-              time: new Date(timestamp).toLocaleTimeString()
+              time: new Date(timestamp).toLocaleTimeString(),
+              open: price,
+              high: price,
+              low: price,
+              close: price,
+              volume: volumeDelta,
+              quoteVolume: quoteVolumeDelta
             }]
           };
         }
 
-        const timeDiff = timestamp - lastPoint.open_time;
         const newHistory = [...currentHistory];
 
-        // If within configured interval of last point, update the last point instead of adding new one
-        if (timeDiff < CALCULATED_CONFIG.INTERVAL_MS) {
+        // Ticks in the last point's bucket update it instead of adding a new one
+        if (bucketStart <= lastPoint.open_time) {
           // Update the last point with the new price (most recent within the interval)
+          // and extend the candle's high/low
           newHistory[newHistory.length - 1] = {
-            open_time: lastPoint.open_time,
+            ...lastPoint,
             timestamp,
             price,
-            time: new Date(timestamp).toLocaleTimeString()
+            time: new Date(timestamp).toLocaleTimeString(),
+            high: Math.max(lastPoint.high, price),
+            low: Math.min(lastPoint.low, price),
+            close: price,
+            volume: lastPoint.volume + volumeDelta,
+            quoteVolume: lastPoint.quoteVolume + quoteVolumeDelta
           };
         } else {
-          // Add new point if more than configured interval has passed
+          // Start a new bucket, aligned like the exchange's klines
           newHistory.push({
-            open_time: timestamp,
+            open_time: bucketStart,
             timestamp,
             price,
-            time: new Date(timestamp).toLocaleTimeString()
+            time: new Date(timestamp).toLocaleTimeString(),
+            open: price,
+            high: price,
+            low: price,
+            close: price,
+            volume: volumeDelta,
+            quoteVolume: quoteVolumeDelta
           });
 
-          // Keep only configured maximum data points
-          if (newHistory.length > CALCULATED_CONFIG.MAX_DATA_POINTS) {
+          // Keep only the timeframe's maximum data points
+          if (newHistory.length > MAX_DATA_POINTS) {
             newHistory.shift();
           }
         }
@@ -262,42 +729,202 @@ const PriceWidget: React.FC = () => {
       });
     };
 
-    ipcRenderer.on('price-update', handlePriceUpdate);
+    const removePriceUpdateListener = api.on('price-update', handlePriceUpdate);
 
     return () => {
-      ipcRenderer.removeListener('price-update', handlePriceUpdate);
+      removePriceUpdateListener();
     };
   }, []);
 
+  // Live candles of charted symbols replace or extend their bucket by open time
+  useEffect(() => {
+    const handleKlineUpdate = (update: KlineUpdate) => {
+      if (klineStreamsRef.current[update.symbol] !== update.interval) {
+        return;
+      }
+
+      const { MAX_DATA_POINTS } = calculateTimeframe(getSymbolTimeframe(update.symbol));
+      klineSyncedRef.current[update.symbol] = update.point.open_time;
+      setPriceHistory(prev => ({
+        ...prev,
+        [update.symbol]: mergeHistory(prev[update.symbol] || [], [update.point], MAX_DATA_POINTS)
+      }));
+    };
+
+    const removeKlineUpdateListener = api.on('kline-update', handleKlineUpdate);
+
+    return () => {
+      removeKlineUpdateListener();
+    };
+  }, []);
+
+  // Stream klines for whatever is on the chart
+  useEffect(() => {
+    const charted = compareMode ? compareSymbols : selectedCoin ? [selectedCoin] : [];
+    const requests: KlineStreamRequest[] = charted
+      .filter(symbol => watchedSymbols.includes(symbol))
+      .map(symbol => ({ symbol, interval: getTimeframe(timeframes[symbol], display.defaultTimeframe).klineInterval }));
+
+    const previous = klineStreamsRef.current;
+    klineStreamsRef.current = {};
+    requests.forEach(request => {
+      klineStreamsRef.current[request.symbol] = request.interval;
+    });
+
+    api.invoke('set-kline-streams', requests)
+      .catch((error: any) => console.error('Failed to update kline streams:', error));
+
+    // Newly charted symbols were aggregated from ticker updates; swap in the exchange's candles.
+    // A timeframe change reloads the whole history anyway.
+    const newlyCharted = requests
+      .filter(request => previous[request.symbol] === undefined)
+      .map(request => request.symbol);
+    if (newlyCharted.length > 0) {
+      backfillHistory(newlyCharted);
+    }
+  }, [selectedCoin, compareMode, compareSymbols, timeframes, display.defaultTimeframe, watchedSymbols]);
+
+  const handleTimeframeChange = async (symbol: string, timeframe: TimeframeId) => {
+    if (timeframesRef.current[symbol] === timeframe) return;
+
+    timeframesRef.current = { ...timeframesRef.current, [symbol]: timeframe };
+    setTimeframes(timeframesRef.current);
+
+    // Drop the old series so live ticks don't mix bucket sizes while the new history loads
+    setPriceHistory(prev => ({ ...prev, [symbol]: [] }));
+
+    try {
+      await api.invoke('set-chart-timeframe', symbol, timeframe);
+    } catch (error) {
+      console.error('Failed to save chart timeframe:', error);
+    }
+
+    await loadHistoricalData([symbol]);
+  };
+
+  const handleIndicatorsChange = async (symbol: string, settings: IndicatorSettings) => {
+    setIndicators(prev => ({ ...prev, [symbol]: settings }));
+    try {
+      await api.invoke('set-chart-indicators', symbol, settings);
+    } catch (error) {
+      console.error('Failed to save chart indicators:', error);
+    }
+  };
+
+  const handleSettingsChange = async (update: SettingsUpdate) => {
+    try {
+      const result: SettingsUpdateResult = await api.invoke('update-settings', update);
+      if (!result.ok) {
+        console.error('Settings update rejected:', result.errors);
+      }
+    } catch (error) {
+      console.error('Failed to update settings:', error);
+    }
+  };
+
   const handleClose = () => {
-    ipcRenderer.send('close-app');
+    api.send('close-app');
   };
 
   const handleMinimize = () => {
-    ipcRenderer.send('minimize-app');
+    api.send('minimize-app');
+  };
+
+  const getQuoteAsset = (symbol: string) => symbolInfo[symbol]?.quoteAsset;
+
+  // A price is stale while its provider's stream is not delivering data
+  const isPriceStale = (symbol: string) => {
+    const state = connectionStates[parseSymbolId(symbol).providerId];
+    return state !== undefined && state !== 'connected';
   };
 
-  const formatPrice = (price: string | undefined) => {
+  // Worst state across providers decides the badge
+  const connectionStateList = Object.values(connectionStates);
+  const overallConnectionState: ConnectionState | null =
+    connectionStateList.length === 0 ? null
+      : connectionStateList.includes('stale') ? 'stale'
+        : connectionStateList.includes('reconnecting') ? 'reconnecting'
+          : connectionStateList.includes('connecting') ? 'connecting'
+            : 'connected';
+
+  const getSymbolName = (symbol: string) => getDisplayName(symbol, symbolInfo[symbol]);
+
+  const formatPrice = (symbol: string) => {
+    const price = prices[symbol]?.price;
     if (!price) return 'Loading...';
-    return `$${parseFloat(price).toLocaleString('en-US', {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    })}`;
+    return formatSymbolPrice(parseFloat(price), symbolInfo[symbol]);
   };
 
+  // Amounts are in the quote currency of their symbol
+  const formatAmount = (value: number, quoteAsset?: string) => formatQuoteAmount(Math.abs(value), quoteAsset);
+
+  const formatSignedAmount = (value: number, quoteAsset?: string) => `${value >= 0 ? '+' : '−'}${formatAmount(value, quoteAsset)}`;
+
+  // Live valuation of a holding; null until the symbol has a price
+  const getPosition = (symbol: string) => {
+    const holding = holdings[symbol];
+    const price = prices[symbol]?.price;
+    if (!holding || !price) return null;
+
+    const value = holding.quantity * parseFloat(price);
+    const cost = holding.quantity * holding.averageCost;
+    const pnl = value - cost;
+    return { value, cost, pnl, pnlPercent: cost > 0 ? (pnl / cost) * 100 : 0 };
+  };
+
+  // Symbols of the visible tab, in that tab's order
+  const activeSymbols = groups.find(g => g.id === activeGroupId)?.symbols || [];
+
+  // Positions can only be summed within one quote currency; dollar stablecoins count as one.
+  // The totals cover every tab.
+  const heldSymbols = watchedSymbols.filter(symbol => holdings[symbol]);
+  const shownHeldSymbols = activeSymbols.filter(symbol => holdings[symbol]);
+  const portfolioTotals: { quoteAsset?: string; value: number; cost: number }[] = [];
+  heldSymbols.forEach(symbol => {
+    const position = getPosition(symbol);
+    const quoteAsset = getQuoteAsset(symbol);
+    const key = isDollarQuote(quoteAsset) ? undefined : quoteAsset;
+    let total = portfolioTotals.find(t => t.quoteAsset === key);
+    if (!total) {
+      total = { quoteAsset: key, value: 0, cost: 0 };
+      portfolioTotals.push(total);
+    }
+    if (position) {
+      total.value += position.value;
+      total.cost += position.cost;
+    }
+  });
+
   const handleCoinClick = (symbol: string) => {
-    console.log('Current selected:', selectedCoin);
+    // In comparison mode rows toggle membership of the compared set instead
+    if (compareMode) {
+      setCompareSymbols(prev => prev.includes(symbol) ? prev.filter(s => s !== symbol) : [...prev, symbol]);
+      return;
+    }
+
     const newSelection = selectedCoin === symbol ? null : symbol;
     setSelectedCoin(newSelection);
   };
 
+  const handleToggleCompareMode = () => {
+    if (compareMode) {
+      setCompareMode(false);
+      setCompareSymbols([]);
+    } else {
+      // Start the comparison from the currently charted symbol
+      setCompareMode(true);
+      setCompareSymbols(selectedCoin ? [selectedCoin] : []);
+      setSelectedCoin(null);
+    }
+  };
+
   const handleRefreshChart = async () => {
     if (isRefreshing || !selectedCoin) return;
 
     setIsRefreshing(true);
     try {
       // Reconnect WebSocket for real-time price updates
-      await ipcRenderer.invoke('reconnect-websocket');
+      await api.invoke('reconnect-websocket');
       console.log('WebSocket reconnected');
 
       // Reload historical chart data
@@ -310,84 +937,119 @@ const PriceWidget: React.FC = () => {
     }
   };
 
-  // Comprehensive color schema for cryptocurrency symbols
-  const COLOR_SCHEMA = [
-    '#FF6B35', // Vibrant Orange (Bitcoin-like)
-    '#4ECDC4', // Teal (Ethereum-like)
-    '#FFEAA7', // Warm Yellow
-    '#96CEB4', // Mint Green
-    '#DDA0DD', // Plum
-    '#F39C12', // Orange
-    '#E74C3C', // Red
-    '#9B59B6', // Purple
-    '#1ABC9C', // Emerald
-    '#3498DB', // Blue
-    '#E67E22', // Carrot
-    '#2ECC71', // Green
-    '#F1C40F', // Yellow
-    '#45B7D1', // Sky Blue
-    '#E91E63', // Pink
-    '#FF5722', // Deep Orange
-    '#795548', // Brown
-    '#607D8B', // Blue Grey
-    '#FF9800', // Amber
-    '#8BC34A', // Light Green
-  ];
-
-  // Get color for symbol based on its position in watched symbols list
-  const getSymbolColor = (symbol: string) => {
-    const index = watchedSymbols.indexOf(symbol);
-    return index !== -1 ? COLOR_SCHEMA[index % COLOR_SCHEMA.length] : COLOR_SCHEMA[0];
-  };
+  // Every symbol has a color in settings, assigned by the main process when it's added
+  const getSymbolColor = (symbol: string) => symbolColors[symbol] || SYMBOL_COLORS[0];
 
-  // Filter available symbols based on search
+  // Filter available symbols based on search; symbols of other tabs can be added too
   const filteredSymbols = availableSymbols.filter(symbol =>
-    !watchedSymbols.includes(symbol.baseAsset) &&
+    !activeSymbols.includes(symbol.id) &&
     (symbol.baseAsset.toLowerCase().includes(searchTerm.toLowerCase()) ||
      symbol.symbol.toLowerCase().includes(searchTerm.toLowerCase()))
   );
 
+  const renderGroupNameInput = () => (
+    <input
+      className="watchlist-tab-input"
+      autoFocus
+      maxLength={MAX_NAME_LENGTH}
+      placeholder="Group name"
+      value={groupNameEdit?.name || ''}
+      onChange={(e) => setGroupNameEdit(prev => prev && { ...prev, name: e.target.value })}
+      onBlur={handleSaveGroupName}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') handleSaveGroupName();
+        if (e.key === 'Escape') setGroupNameEdit(null);
+      }}
+    />
+  );
+
   // Auto-resize window when chart is shown/hidden or symbol count changes
   useEffect(() => {
-    // Only resize if we have symbols loaded (prevents premature resize on mount)
-    if (watchedSymbols.length === 0) {
+    // Only resize if we have symbols loaded (prevents premature resize on mount),
+    // and leave a size the user locked alone
+    if (watchedSymbols.length === 0 || sizeLocked) {
       return;
     }
 
     const resizeWindow = () => {
       // Base dimensions
       const baseWidth = 330;
-      const symbolListHeight = Math.max(2, watchedSymbols.length) * 46; // 40px per symbol row, minimum 2 rows
+      const symbolListHeight = Math.max(2, activeSymbols.length) * 46; // 40px per shown symbol row, minimum 2 rows
+      const holdingsHeight = shownHeldSymbols.length * 16 + portfolioTotals.length * 42; // Position lines plus the portfolio total rows
+      const holdingEditorHeight = editingHolding ? 32 : 0;
       const headerHeight = 50; // Header with title and buttons
+      const tabsHeight = 30; // Watchlist group tabs
 
       // Additional height when chart is shown
-      const chartHeight = selectedCoin ? CHART_CONFIG.CHART_HEIGHT + 80 : 0; // +80 for padding and header
+      const ohlcHeight = chartMode === 'candle' ? 18 : 0; // OHLC readout row in candlestick mode
+      const selectedIndicators = selectedCoin ? indicators[selectedCoin] || DEFAULT_INDICATORS : DEFAULT_INDICATORS;
+      const oscillatorPanes = (selectedIndicators.rsi.enabled ? 1 : 0) + (selectedIndicators.macd.enabled ? 1 : 0);
+      const indicatorHeight = oscillatorPanes * (CHART_CONFIG.INDICATOR_HEIGHT + 4);
+      const comparisonLegendRows = Math.ceil(compareSymbols.length / 3);
+      const chartHeight = compareMode
+        ? display.chartHeight + 80 + comparisonLegendRows * 16 // +80 for padding and header, 16px per legend row
+        : selectedCoin
+          ? display.chartHeight + CHART_CONFIG.VOLUME_HEIGHT + indicatorHeight + 100 + ohlcHeight
+          : 0; // +100 for padding, header and toolbar
       const modalHeight = showAddModal ? 246 : 0; // Height for add symbol modal
+      const alertsPanelHeight = showAlertsPanel ? 160 + Math.min(alerts.length, 4) * 37 : 0; // Form plus up to 4 visible alerts
+      const themeEditorHeight = customThemes.some(t => t.id === themeSetting) ? 230 : 0; // Name row plus the theme colors, two per row
+      const settingsPanelHeight = showSettingsPanel ? 294 + themeEditorHeight + Math.min(watchedSymbols.length, 6) * 26 : 0; // Display rows plus up to 6 visible colors
 
-      const newWidth = selectedCoin ? 400 : baseWidth; // Wider when chart is shown
-      const newHeight = headerHeight + symbolListHeight + chartHeight + modalHeight + 20; // +20 for padding
-
-      console.log(`Auto-resizing window: symbols=${watchedSymbols.length}, chart=${selectedCoin ? 'shown' : 'hidden'}, modal=${showAddModal ? 'shown' : 'hidden'}`);
-      console.log(`New dimensions: ${newWidth}x${newHeight}`);
+      const newWidth = selectedCoin || compareMode ? 400 : baseWidth; // Wider when chart is shown
+      const newHeight = headerHeight + tabsHeight + symbolListHeight + holdingsHeight + holdingEditorHeight + chartHeight + modalHeight + alertsPanelHeight + settingsPanelHeight + 20; // +20 for padding
 
       // Send resize request to main process
-      ipcRenderer.send('resize-window', { width: newWidth, height: newHeight });
+      api.send('resize-window', { width: newWidth, height: newHeight });
     };
 
     // Resize after a short delay to allow DOM updates
     const timeoutId = setTimeout(resizeWindow, 100);
 
     return () => clearTimeout(timeoutId);
-  }, [selectedCoin, watchedSymbols.length, showAddModal]); // Trigger when these change
+  }, [selectedCoin, watchedSymbols.length, activeSymbols.length, sizeLocked, showAddModal, showAlertsPanel, showSettingsPanel, themeSetting, customThemes, display.chartHeight, alerts.length, chartMode, indicators, compareMode, compareSymbols.length, shownHeldSymbols.length, portfolioTotals.length, editingHolding]); // Trigger when these change
 
   return (
-    <div className="widget-container">
+    <div className={`widget-container ${sizeLocked ? 'size-locked' : ''}`}>
       <div className="widget-header">
         <div className="title-section">
           <h3 className="widget-title">Crypto Prices</h3>
+          {replayState.active ? (
+            <span className="connection-badge replay" title="Replaying recorded ticks">
+              Replay {replayState.speed}x
+            </span>
+          ) : overallConnectionState && (
+            <span
+              className={`connection-badge ${overallConnectionState}`}
+              title={Object.keys(connectionStates).map(id => `${PROVIDERS[id]?.name || id}: ${CONNECTION_LABELS[connectionStates[id]]}`).join('\n')}
+            >
+              {CONNECTION_LABELS[overallConnectionState]}
+            </span>
+          )}
           <button className="control-btn add-btn" onClick={() => showAddModal ? setShowAddModal(false) : setShowAddModal(true) } title="Add Symbol">
             <FontAwesomeIcon icon={faPlus} />
           </button>
+          <button
+            className={`control-btn add-btn ${compareMode ? 'active' : ''}`}
+            onClick={handleToggleCompareMode}
+            title="Compare Symbols"
+          >
+            <FontAwesomeIcon icon={faCodeCompare} />
+          </button>
+          <button
+            className={`control-btn add-btn ${showAlertsPanel ? 'active' : ''}`}
+            onClick={() => setShowAlertsPanel(!showAlertsPanel)}
+            title="Price Alerts"
+          >
+            <FontAwesomeIcon icon={faBell} />
+          </button>
+          <button
+            className={`control-btn add-btn ${showSettingsPanel ? 'active' : ''}`}
+            onClick={() => setShowSettingsPanel(!showSettingsPanel)}
+            title="Settings"
+          >
+            <FontAwesomeIcon icon={faGear} />
+          </button>
           {selectedCoin && (
             <button
               className={`control-btn refresh-btn ${isRefreshing ? 'spinning' : ''}`}
@@ -409,51 +1071,108 @@ const PriceWidget: React.FC = () => {
         </div>
       </div>
 
+      <div className="watchlist-tabs">
+        {groups.map(group => groupNameEdit?.groupId === group.id ? (
+          <React.Fragment key={group.id}>{renderGroupNameInput()}</React.Fragment>
+        ) : (
+          <div
+            key={group.id}
+            className={`watchlist-tab ${group.id === activeGroupId ? 'active' : ''}`}
+            onClick={() => handleSelectGroup(group.id)}
+            onDoubleClick={() => setGroupNameEdit({ groupId: group.id, name: group.name })}
+            title="Double-click to rename"
+          >
+            {group.name}
+            {group.id === activeGroupId && groups.length > 1 && (
+              <button
+                className="watchlist-tab-remove"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRemoveGroup(group.id);
+                }}
+                title="Remove Group"
+              >
+                ×
+              </button>
+            )}
+          </div>
+        ))}
+        {groupNameEdit && groupNameEdit.groupId === null ? renderGroupNameInput() : (
+          <button className="watchlist-tab add-group-btn" onClick={() => setGroupNameEdit({ groupId: null, name: '' })} title="Add Group">
+            <FontAwesomeIcon icon={faPlus} />
+          </button>
+        )}
+      </div>
+
       <div className="price-list">
-        {watchedSymbols.map((symbol) => (
+        {groups.length > 0 && activeSymbols.length === 0 && (
+          <div className="watchlist-empty">No symbols in this group yet</div>
+        )}
+        {activeSymbols.map((symbol) => (
           <div
             key={symbol}
-            className={`price-item clickable ${selectedCoin === symbol ? 'active' : ''}`}
+            className={`price-item clickable ${(compareMode ? compareSymbols.includes(symbol) : selectedCoin === symbol) ? 'active' : ''} ${holdings[symbol] || editingHolding === symbol ? 'has-holding' : ''} ${draggedSymbol === symbol ? 'dragging' : ''} ${dropTarget === symbol && draggedSymbol !== symbol ? 'drop-target' : ''}`}
             onClick={() => handleCoinClick(symbol)}
+            draggable={editingHolding !== symbol}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = 'move';
+              setDraggedSymbol(symbol);
+            }}
+            onDragOver={(e) => {
+              if (!draggedSymbol) return;
+              e.preventDefault();
+              setDropTarget(symbol);
+            }}
+            onDrop={(e) => {
+              e.preventDefault();
+              handleDropSymbol(symbol);
+            }}
+            onDragEnd={() => {
+              setDraggedSymbol(null);
+              setDropTarget(null);
+            }}
             style={{
               borderLeft: `3px solid ${getSymbolColor(symbol)}`,
             }}
           >
             <span className="coin-symbol" style={{ color: getSymbolColor(symbol) }}>
-              {getDisplayName(symbol)}
+              {getSymbolName(symbol)}
+              {getQuoteAsset(symbol) && <span className="quote-asset">/{getQuoteAsset(symbol)}</span>}
               {getMarketType(symbol) === 'PERP' && (
-                <span className="market-badge" style={{
-                  marginLeft: '4px',
-                  fontSize: '8px',
-                  padding: '1px 3px',
-                  backgroundColor: '#FF6B00',
-                  color: '#fff',
-                  borderRadius: '2px',
-                  fontWeight: 'bold'
-                }}>
+                <span className="market-badge">
                   PERP
                 </span>
               )}
             </span>
             <span
-              className={`coin-price ${!prices[symbol] ? 'loading' : ''}`}
+              className={`coin-price ${!prices[symbol] ? 'loading' : ''} ${isPriceStale(symbol) ? 'stale' : ''}`}
               style={{
-                color: !prices[symbol] ? '#888' : getSymbolColor(symbol),
+                color: !prices[symbol] || isPriceStale(symbol) ? 'var(--text-muted)' : getSymbolColor(symbol),
                 fontWeight: 'bold'
               }}
             >
-              {formatPrice(prices[symbol]?.price)}
+              {formatPrice(symbol)}
             </span>
             {prices[symbol] && (
               <span
                 className="coin-change"
                 style={{
-                  color: parseFloat(prices[symbol]?.priceChangePercent || '0') >= 0 ? '#4CAF50' : '#F44336'
+                  color: parseFloat(prices[symbol]?.priceChangePercent || '0') >= 0 ? 'var(--positive)' : 'var(--negative)'
                 }}
               >
                 {parseFloat(prices[symbol]?.priceChangePercent || '0') >= 0 ? '+' : ''}{parseFloat(prices[symbol]?.priceChangePercent || '0').toFixed(2)}%
               </span>
             )}
+            <button
+              className="remove-btn holding-btn"
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingHolding(editingHolding === symbol ? null : symbol);
+              }}
+              title="Edit Holding"
+            >
+              <FontAwesomeIcon icon={faWallet} />
+            </button>
             <button
               className="remove-btn"
               onClick={(e) => {
@@ -464,8 +1183,44 @@ const PriceWidget: React.FC = () => {
             >
               <FontAwesomeIcon icon={faTrash} />
             </button>
+            {holdings[symbol] && (() => {
+              const position = getPosition(symbol);
+              return (
+                <div className="holding-line">
+                  <span>{holdings[symbol].quantity} @ {formatSymbolPrice(holdings[symbol].averageCost, symbolInfo[symbol])}</span>
+                  {position && (
+                    <>
+                      <span>{formatAmount(position.value, getQuoteAsset(symbol))}</span>
+                      <span style={{ color: position.pnl >= 0 ? 'var(--positive)' : 'var(--negative)' }}>
+                        {formatSignedAmount(position.pnl, getQuoteAsset(symbol))} ({position.pnlPercent >= 0 ? '+' : ''}{position.pnlPercent.toFixed(2)}%)
+                      </span>
+                    </>
+                  )}
+                </div>
+              );
+            })()}
+            {editingHolding === symbol && (
+              <HoldingEditor
+                holding={holdings[symbol]}
+                onSave={(holding) => handleSaveHolding(symbol, holding)}
+                onCancel={() => setEditingHolding(null)}
+              />
+            )}
           </div>
         ))}
+        {portfolioTotals.map(total => {
+          const pnl = total.value - total.cost;
+          return (
+            <div key={total.quoteAsset || 'USD'} className="price-item portfolio-total">
+              <span className="coin-symbol">Total{total.quoteAsset && <span className="quote-asset">{total.quoteAsset}</span>}</span>
+              <span className="coin-price">{formatAmount(total.value, total.quoteAsset)}</span>
+              <span className="coin-change" style={{ color: pnl >= 0 ? 'var(--positive)' : 'var(--negative)' }}>
+                {formatSignedAmount(pnl, total.quoteAsset)}
+                {total.cost > 0 && ` (${pnl >= 0 ? '+' : ''}${((pnl / total.cost) * 100).toFixed(2)}%)`}
+              </span>
+            </div>
+          );
+        })}
       </div>
 
       {showAddModal && (
@@ -484,38 +1239,80 @@ const PriceWidget: React.FC = () => {
           <div className="symbol-list">
             {filteredSymbols.slice(0, 10).map((symbol) => (
               <div
-                key={symbol.symbol}
+                key={symbol.id}
                 className="symbol-option"
-                onClick={() => handleAddSymbol(symbol.symbol)}
+                onClick={() => handleAddSymbol(symbol.id)}
               >
                 <span className="symbol-name">
                   {symbol.baseAsset}
+                  <span className="quote-asset">/{symbol.quoteAsset}</span>
                   {symbol.marketType === 'PERP' && (
-                    <span className="market-badge" style={{
-                      marginLeft: '6px',
-                      fontSize: '9px',
-                      padding: '2px 4px',
-                      backgroundColor: '#FF6B00',
-                      color: '#fff',
-                      borderRadius: '3px',
-                      fontWeight: 'bold'
-                    }}>
+                    <span className="market-badge">
                       PERP
                     </span>
                   )}
                 </span>
-                <span className="symbol-pair">{symbol.symbol}</span>
+                <span className="symbol-pair">{symbol.symbol} · {getProviderInfo(symbol.id)?.name}</span>
               </div>
             ))}
           </div>
         </div>
       )}
 
-      {selectedCoin && priceHistory[selectedCoin] && (
+      {showAlertsPanel && (
+        <AlertsPanel
+          symbols={watchedSymbols}
+          alerts={alerts}
+          getDisplayName={getSymbolName}
+          formatPrice={(symbol, price) => formatSymbolPrice(price, symbolInfo[symbol])}
+          onAdd={handleAddAlert}
+          onRemove={handleRemoveAlert}
+          onClose={() => setShowAlertsPanel(false)}
+        />
+      )}
+
+      {showSettingsPanel && (
+        <SettingsPanel
+          display={display}
+          symbols={watchedSymbols}
+          tabSymbols={activeSymbols}
+          defaultSymbols={defaultSymbols}
+          getDisplayName={getSymbolName}
+          getSymbolColor={getSymbolColor}
+          sizeLocked={sizeLocked}
+          themeSetting={themeSetting}
+          customThemes={customThemes}
+          activeTheme={theme}
+          onChange={handleSettingsChange}
+          onClose={() => setShowSettingsPanel(false)}
+        />
+      )}
+
+      {compareMode && (
+        <ComparisonChart
+          series={compareSymbols.map(symbol => ({
+            symbol,
+            color: getSymbolColor(symbol),
+            data: priceHistory[symbol] || []
+          }))}
+          getDisplayName={getSymbolName}
+          chartHeight={display.chartHeight}
+        />
+      )}
+
+      {!compareMode && selectedCoin && priceHistory[selectedCoin] && (
         <PriceChart
           data={priceHistory[selectedCoin]}
           symbol={selectedCoin}
+          info={symbolInfo[selectedCoin]}
           color={getSymbolColor(selectedCoin)}
+          mode={chartMode}
+          onModeChange={setChartMode}
+          timeframe={getTimeframe(timeframes[selectedCoin], display.defaultTimeframe).id}
+          onTimeframeChange={(timeframe) => handleTimeframeChange(selectedCoin, timeframe)}
+          indicators={indicators[selectedCoin] || DEFAULT_INDICATORS}
+          onIndicatorsChange={(settings) => handleIndicatorsChange(selectedCoin, settings)}
+          chartHeight={display.chartHeight}
         />
       )}
     </div>
@@ -0,0 +1,312 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TIMEFRAMES } from '../../shared/config';
+import { AlwaysOnTopLevel, DisplaySettings, DISPLAY_LIMITS, MAX_NAME_LENGTH, SettingsUpdate, ThemeSetting } from '../../shared/settings';
+import { BUILTIN_THEMES, CustomTheme, THEME_COLOR_KEYS, Theme, ThemeColors } from '../../shared/themes';
+
+interface SettingsPanelProps {
+  display: DisplaySettings;
+  symbols: string[];
+  tabSymbols: string[]; // Of the tab shown in this window
+  defaultSymbols: string[];
+  getDisplayName: (symbol: string) => string;
+  getSymbolColor: (symbol: string) => string;
+  sizeLocked: boolean;
+  themeSetting: ThemeSetting;
+  customThemes: CustomTheme[];
+  activeTheme: Theme; // What themeSetting resolves to, e.g. the light theme for 'system' in light mode
+  onChange: (update: SettingsUpdate) => void;
+  onClose: () => void;
+}
+
+const ALWAYS_ON_TOP_OPTIONS: { value: AlwaysOnTopLevel; label: string }[] = [
+  { value: 'screen-saver', label: 'Above everything' },
+  { value: 'floating', label: 'Above windows' },
+  { value: 'off', label: 'Off' }
+];
+
+// Quiet time before a dragged slider or color picker sends its value, so settings.json isn't
+// rewritten on every step
+const COMMIT_DELAY_MS = 200;
+
+interface DeferredInputProps {
+  type: 'range' | 'color';
+  value: string;
+  min?: number;
+  max?: number;
+  step?: number;
+  title?: string;
+  format?: (value: string) => string; // Shows the value next to the input
+  onChange: (value: string) => void;
+}
+
+// Input that follows the pointer locally and sends its value once the user pauses or the panel closes
+const DeferredInput: React.FC<DeferredInputProps> = ({ value, format, onChange, ...inputProps }) => {
+  const [localValue, setLocalValue] = useState(value);
+  const pendingRef = useRef<string | null>(null);
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const commit = () => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+    if (pendingRef.current !== null) {
+      onChangeRef.current(pendingRef.current);
+      pendingRef.current = null;
+    }
+  };
+
+  // Follow settings pushed by the main process unless a value of our own is on its way
+  useEffect(() => {
+    if (pendingRef.current === null) {
+      setLocalValue(value);
+    }
+  }, [value]);
+
+  useEffect(() => commit, []);
+
+  const handleChange = (next: string) => {
+    setLocalValue(next);
+    pendingRef.current = next;
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+    }
+    timerRef.current = setTimeout(commit, COMMIT_DELAY_MS);
+  };
+
+  return (
+    <>
+      <input {...inputProps} value={localValue} onChange={(e) => handleChange(e.target.value)} />
+      {format && <span className="settings-value">{format(localValue)}</span>}
+    </>
+  );
+};
+
+const THEME_COLOR_LABELS: { [key in keyof ThemeColors]: string } = {
+  background: 'Background',
+  panel: 'Panels',
+  input: 'Inputs',
+  border: 'Borders',
+  text: 'Text',
+  secondaryText: 'Secondary text',
+  mutedText: 'Muted text',
+  button: 'Buttons',
+  positive: 'Up',
+  negative: 'Down',
+  warning: 'Warning',
+  info: 'Info',
+  perpBadge: 'PERP badge'
+};
+
+// Changes are sent to the main process as they are made (sliders and color pickers once they settle);
+// the panel re-renders from the settings it pushes back
+const SettingsPanel: React.FC<SettingsPanelProps> = ({
+  display, symbols, tabSymbols, defaultSymbols, getDisplayName, getSymbolColor, sizeLocked, themeSetting, customThemes, activeTheme, onChange, onClose
+}) => {
+  const customTheme = customThemes.find(theme => theme.id === themeSetting);
+
+  // The name is sent when the field loses focus, so it may be empty while typing
+  const [themeName, setThemeName] = useState(customTheme?.name || '');
+  useEffect(() => {
+    setThemeName(customTheme?.name || '');
+  }, [customTheme?.id, customTheme?.name]);
+
+  const updateDisplay = (changes: Partial<DisplaySettings>) => {
+    onChange({ display: changes });
+  };
+
+  const updateCustomTheme = (changes: Partial<CustomTheme>) => {
+    if (!customTheme) return;
+    onChange({ customThemes: customThemes.map(theme => (theme.id === customTheme.id ? { ...theme, ...changes } : theme)) });
+  };
+
+  // New themes start as a copy of the one shown
+  const addCustomTheme = () => {
+    const theme: CustomTheme = {
+      id: `custom-${Date.now().toString(36)}`,
+      name: `Custom ${customThemes.length + 1}`,
+      colors: { ...activeTheme.colors }
+    };
+    onChange({ customThemes: [...customThemes, theme], theme: theme.id });
+  };
+
+  const removeCustomTheme = () => {
+    if (!customTheme) return;
+    onChange({ customThemes: customThemes.filter(theme => theme.id !== customTheme.id), theme: 'system' });
+  };
+
+  const setColor = (symbol: string, color: string) => {
+    onChange({ colors: { [symbol]: color } });
+  };
+
+  return (
+    <div className="add-modal settings-panel">
+      <div className="modal-header">
+        <h4>Settings</h4>
+        <button className="close-modal-btn" onClick={onClose}>×</button>
+      </div>
+
+      <div className="settings-row">
+        <label>Chart height</label>
+        <DeferredInput
+          type="range"
+          min={DISPLAY_LIMITS.MIN_CHART_HEIGHT}
+          max={DISPLAY_LIMITS.MAX_CHART_HEIGHT}
+          step={10}
+          value={String(display.chartHeight)}
+          format={(value) => `${value}px`}
+          onChange={(value) => updateDisplay({ chartHeight: parseInt(value, 10) })}
+        />
+      </div>
+
+      <div className="settings-row">
+        <label>Default timeframe</label>
+        <select
+          value={display.defaultTimeframe}
+          onChange={(e) => updateDisplay({ defaultTimeframe: e.target.value as DisplaySettings['defaultTimeframe'] })}
+        >
+          {TIMEFRAMES.map(tf => (
+            <option key={tf.id} value={tf.id}>{tf.id} ({tf.klineInterval} candles)</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="settings-row">
+        <label>Always on top</label>
+        <select
+          value={display.alwaysOnTop}
+          onChange={(e) => updateDisplay({ alwaysOnTop: e.target.value as AlwaysOnTopLevel })}
+        >
+          {ALWAYS_ON_TOP_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="settings-row">
+        <label>Opacity</label>
+        <DeferredInput
+          type="range"
+          min={DISPLAY_LIMITS.MIN_OPACITY * 100}
+          max={DISPLAY_LIMITS.MAX_OPACITY * 100}
+          step={5}
+          value={String(Math.round(display.opacity * 100))}
+          format={(value) => `${value}%`}
+          onChange={(value) => updateDisplay({ opacity: parseInt(value, 10) / 100 })}
+        />
+      </div>
+
+      <div className="settings-row">
+        <label>Theme</label>
+        <select value={themeSetting} onChange={(e) => onChange({ theme: e.target.value })}>
+          <option value="system">Follow system</option>
+          {Object.keys(BUILTIN_THEMES).map(id => (
+            <option key={id} value={id}>{BUILTIN_THEMES[id as keyof typeof BUILTIN_THEMES].name}</option>
+          ))}
+          {customThemes.map(theme => (
+            <option key={theme.id} value={theme.id}>{theme.name}</option>
+          ))}
+        </select>
+        <button className="settings-theme-btn" onClick={addCustomTheme} title="New theme based on this one">
+          New
+        </button>
+      </div>
+
+      {customTheme && (
+        <div className="settings-theme-editor">
+          <div className="settings-row">
+            <label>Name</label>
+            <input
+              type="text"
+              value={themeName}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={(e) => setThemeName(e.target.value)}
+              onBlur={() => {
+                if (themeName.trim() && themeName.trim() !== customTheme.name) {
+                  updateCustomTheme({ name: themeName.trim() });
+                } else {
+                  setThemeName(customTheme.name);
+                }
+              }}
+            />
+            <button className="settings-theme-btn" onClick={removeCustomTheme} title="Delete this theme">
+              Delete
+            </button>
+          </div>
+          <div className="settings-theme-colors">
+            {THEME_COLOR_KEYS.map(key => (
+              <div key={key} className="settings-color-row">
+                <DeferredInput
+                  type="color"
+                  value={customTheme.colors[key]}
+                  onChange={(value) => updateCustomTheme({ colors: { ...customTheme.colors, [key]: value } })}
+                />
+                <span className="settings-color-name">{THEME_COLOR_LABELS[key]}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="settings-row">
+        <label>Background</label>
+        <DeferredInput
+          type="range"
+          min={DISPLAY_LIMITS.MIN_BACKGROUND_OPACITY * 100}
+          max={DISPLAY_LIMITS.MAX_BACKGROUND_OPACITY * 100}
+          step={5}
+          value={String(Math.round(display.backgroundOpacity * 100))}
+          format={(value) => `${value}%`}
+          onChange={(value) => updateDisplay({ backgroundOpacity: parseInt(value, 10) / 100 })}
+          title="Opacity of the window background; text and charts stay opaque"
+        />
+      </div>
+
+      <div className="settings-row">
+        <label>New windows</label>
+        <span className="settings-default-symbols" title={defaultSymbols.map(getDisplayName).join(', ')}>
+          {defaultSymbols.length > 0 ? defaultSymbols.map(getDisplayName).join(', ') : 'Empty'}
+        </span>
+        <button
+          className="settings-theme-btn"
+          onClick={() => onChange({ defaultSymbols: tabSymbols })}
+          title="New widget windows start with the symbols of this tab"
+        >
+          Use tab
+        </button>
+        {defaultSymbols.length > 0 && (
+          <button className="settings-theme-btn" onClick={() => onChange({ defaultSymbols: [] })} title="Open new windows empty">
+            Clear
+          </button>
+        )}
+      </div>
+
+      <div className="settings-row">
+        <label>Lock window size</label>
+        <input
+          type="checkbox"
+          checked={sizeLocked}
+          onChange={(e) => onChange({ window: { lockSize: e.target.checked } })}
+          title="Keep the size you resized the window to instead of fitting it to the content"
+        />
+      </div>
+
+      <div className="settings-colors">
+        {symbols.map(symbol => (
+          <div key={symbol} className="settings-color-row">
+            <DeferredInput
+              type="color"
+              value={getSymbolColor(symbol)}
+              onChange={(value) => setColor(symbol, value)}
+            />
+            <span className="settings-color-name">{getDisplayName(symbol)}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SettingsPanel;
@@ -1,38 +1,118 @@
+import { TimeframeId, IndicatorSettings } from './types';
+
 /**
  * Chart Configuration
  *
- * To modify chart behavior, update these values:
+ * The chart timeframe is picked at runtime from TIMEFRAMES and remembered per symbol.
+ * To add or change a timeframe, edit the TIMEFRAMES list below:
  *
- * Examples:
- * - For 24-hour chart: HISTORY_HOURS = 24
- * - For 5-minute intervals: INTERVAL_MINUTES = 5, BINANCE_INTERVAL = '5m'
- * - For 15-minute intervals: INTERVAL_MINUTES = 15, BINANCE_INTERVAL = '15m'
- * - For 1-hour intervals: INTERVAL_MINUTES = 60, BINANCE_INTERVAL = '1h'
+ * - historyHours: how much historical data to load and keep
+ * - intervalMinutes: how often to create new data points
+ * - klineInterval: kline interval string passed to the provider (must match intervalMinutes)
  *
- * Valid BINANCE_INTERVAL values: 1m, 3m, 5m, 15m, 30m, 1h, 2h, 4h, 6h, 8h, 12h, 1d
+ * Valid klineInterval values: 1m, 3m, 5m, 15m, 30m, 1h, 2h, 4h, 6h, 8h, 12h, 1d
  */
 export const CHART_CONFIG = {
-  // History duration in hours (how much historical data to load and keep)
-  HISTORY_HOURS: 6,
+  // Timeframe used for symbols that don't have one saved yet (default of the display setting)
+  DEFAULT_TIMEFRAME: '6H' as TimeframeId,
 
-  // Data point interval in minutes (how often to create new data points)
-  INTERVAL_MINUTES: 1,
+  // Chart height in pixels (default of the display setting)
+  CHART_HEIGHT: 200,
 
-  // Binance API interval string (must match INTERVAL_MINUTES)
-  BINANCE_INTERVAL: '1m' as const,
+  // Volume pane height in pixels (shown under the price chart)
+  VOLUME_HEIGHT: 50,
 
-  // Chart height in pixels
-  CHART_HEIGHT: 200,
+  // Height in pixels of each oscillator pane (RSI, MACD)
+  INDICATOR_HEIGHT: 60,
+} as const;
+
+/**
+ * Stream Connection Configuration
+ *
+ * Reconnects back off exponentially (with jitter) from the minimum to the maximum delay.
+ * A connection that delivers no message for STALE_AFTER_MS is shown as stale, and after
+ * RECONNECT_AFTER_MS it is considered dead and replaced. Exchanges such as Binance drop
+ * every connection after 24 hours, so connections are renewed before MAX_LIFETIME_MS.
+ */
+export const CONNECTION_CONFIG = {
+  MIN_RECONNECT_DELAY_MS: 1000,
+  MAX_RECONNECT_DELAY_MS: 60 * 1000,
+  STALE_AFTER_MS: 20 * 1000,
+  RECONNECT_AFTER_MS: 60 * 1000,
+  MAX_LIFETIME_MS: 23 * 60 * 60 * 1000,
 } as const;
 
-// Calculated values based on configuration
-export const CALCULATED_CONFIG = {
-  // Total data points to keep (HISTORY_HOURS * 60 / INTERVAL_MINUTES)
-  MAX_DATA_POINTS: CHART_CONFIG.HISTORY_HOURS * 60 / CHART_CONFIG.INTERVAL_MINUTES,
+// Line and accent colors given to symbols as they are added, in order
+export const SYMBOL_COLORS = [
+  '#FF6B35', // Vibrant Orange (Bitcoin-like)
+  '#4ECDC4', // Teal (Ethereum-like)
+  '#FFEAA7', // Warm Yellow
+  '#96CEB4', // Mint Green
+  '#DDA0DD', // Plum
+  '#F39C12', // Orange
+  '#E74C3C', // Red
+  '#9B59B6', // Purple
+  '#1ABC9C', // Emerald
+  '#3498DB', // Blue
+  '#E67E22', // Carrot
+  '#2ECC71', // Green
+  '#F1C40F', // Yellow
+  '#45B7D1', // Sky Blue
+  '#E91E63', // Pink
+  '#FF5722', // Deep Orange
+  '#795548', // Brown
+  '#607D8B', // Blue Grey
+  '#FF9800', // Amber
+  '#8BC34A', // Light Green
+];
+
+/** Color for a new symbol: the first palette color no other symbol uses, or the next one in turn. */
+export const pickSymbolColor = (usedColors: string[]): string => {
+  const used = usedColors.map(color => color.toUpperCase());
+  return SYMBOL_COLORS.find(color => !used.includes(color)) || SYMBOL_COLORS[usedColors.length % SYMBOL_COLORS.length];
+};
+
+// Indicator set for symbols that don't have one saved yet (all off, common parameters)
+export const DEFAULT_INDICATORS: IndicatorSettings = {
+  sma: { enabled: false, period: 20 },
+  ema: { enabled: false, period: 50 },
+  bollinger: { enabled: false, period: 20, stdDev: 2 },
+  rsi: { enabled: false, period: 14 },
+  macd: { enabled: false, fast: 12, slow: 26, signal: 9 },
+};
+
+export interface TimeframeConfig {
+  id: TimeframeId;
+  historyHours: number;
+  intervalMinutes: number;
+  klineInterval: string;
+}
+
+export const TIMEFRAMES: TimeframeConfig[] = [
+  { id: '1H', historyHours: 1, intervalMinutes: 1, klineInterval: '1m' },
+  { id: '6H', historyHours: 6, intervalMinutes: 1, klineInterval: '1m' },
+  { id: '24H', historyHours: 24, intervalMinutes: 5, klineInterval: '5m' },
+  { id: '7D', historyHours: 7 * 24, intervalMinutes: 60, klineInterval: '1h' },
+  { id: '30D', historyHours: 30 * 24, intervalMinutes: 240, klineInterval: '4h' },
+];
+
+export const getTimeframe = (
+  id: TimeframeId | undefined,
+  fallback: TimeframeId = CHART_CONFIG.DEFAULT_TIMEFRAME
+): TimeframeConfig => {
+  return TIMEFRAMES.find(tf => tf.id === id) ||
+    TIMEFRAMES.find(tf => tf.id === fallback) ||
+    TIMEFRAMES.find(tf => tf.id === CHART_CONFIG.DEFAULT_TIMEFRAME)!;
+};
+
+// Calculated values based on a timeframe
+export const calculateTimeframe = (timeframe: TimeframeConfig) => ({
+  // Total data points to keep (historyHours * 60 / intervalMinutes)
+  MAX_DATA_POINTS: timeframe.historyHours * 60 / timeframe.intervalMinutes,
 
   // History duration in milliseconds
-  HISTORY_MS: CHART_CONFIG.HISTORY_HOURS * 60 * 60 * 1000,
+  HISTORY_MS: timeframe.historyHours * 60 * 60 * 1000,
 
   // Interval duration in milliseconds
-  INTERVAL_MS: CHART_CONFIG.INTERVAL_MINUTES * 60 * 1000,
-} as const;
\ No newline at end of file
+  INTERVAL_MS: timeframe.intervalMinutes * 60 * 1000,
+});
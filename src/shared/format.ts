@@ -0,0 +1,35 @@
+import { MarketSymbol } from './types';
+
+// Quote assets that are priced as dollars ($1,234.56); everything else is shown with
+// its asset code after the amount (0.052310 BTC)
+const DOLLAR_QUOTE_ASSETS = ['USD', 'USDT', 'USDC', 'FDUSD', 'TUSD', 'BUSD', 'USDP', 'DAI'];
+
+export const isDollarQuote = (quoteAsset?: string): boolean => {
+  return !quoteAsset || DOLLAR_QUOTE_ASSETS.includes(quoteAsset);
+};
+
+// Enough decimals to show small prices (altcoins quoted in BTC) meaningfully
+export const getPriceDecimals = (value: number): number => {
+  const magnitude = Math.abs(value);
+  if (magnitude >= 1 || magnitude === 0) return 2;
+  if (magnitude >= 0.01) return 4;
+  if (magnitude >= 0.0001) return 6;
+  return 8;
+};
+
+export const formatQuoteAmount = (
+  value: number,
+  quoteAsset?: string,
+  decimals: number = getPriceDecimals(value)
+): string => {
+  const amount = value.toLocaleString('en-US', {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals
+  });
+  return isDollarQuote(quoteAsset) ? `$${amount}` : `${amount} ${quoteAsset}`;
+};
+
+// Prices use the symbol's tick size when known
+export const formatSymbolPrice = (value: number, info?: MarketSymbol): string => {
+  return formatQuoteAmount(value, info?.quoteAsset, info?.pricePrecision ?? getPriceDecimals(value));
+};
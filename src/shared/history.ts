@@ -0,0 +1,25 @@
+import { PriceHistoryPoint } from './types';
+
+// Start of the interval bucket a timestamp falls in. Klines are aligned to the epoch
+// the same way, so live buckets and fetched klines share open times.
+export const getBucketStart = (timestamp: number, intervalMs: number): number => {
+  return Math.floor(timestamp / intervalMs) * intervalMs;
+};
+
+/**
+ * Splice fetched klines into an existing history, oldest first.
+ * Buckets are matched by open time and the fetched kline wins, so a backfill after a gap
+ * neither duplicates buckets nor keeps partial live candles. Keeps the newest maxPoints.
+ */
+export const mergeHistory = (
+  existing: PriceHistoryPoint[],
+  fetched: PriceHistoryPoint[],
+  maxPoints: number
+): PriceHistoryPoint[] => {
+  const byOpenTime = new Map<number, PriceHistoryPoint>();
+  existing.forEach(point => byOpenTime.set(point.open_time, point));
+  fetched.forEach(point => byOpenTime.set(point.open_time, point));
+
+  const merged = Array.from(byOpenTime.values()).sort((a, b) => a.open_time - b.open_time);
+  return merged.length > maxPoints ? merged.slice(merged.length - maxPoints) : merged;
+};
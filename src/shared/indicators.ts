@@ -0,0 +1,316 @@
+import { IndicatorSettings } from './types';
+
+/**
+ * Technical indicator calculations (SMA, EMA, Bollinger Bands, RSI, MACD).
+ *
+ * Every indicator is a pure streaming step: it takes the state after the previous
+ * close plus the next close and returns the new state and the indicator value.
+ * Full series are computed by folding the steps over the closes, and a live tick
+ * only has to replay the last step from the state of the previous candle.
+ * Values are undefined until an indicator has seen enough closes.
+ */
+
+export interface IndicatorPoint {
+  sma?: number;
+  ema?: number;
+  bbUpper?: number;
+  bbMiddle?: number;
+  bbLower?: number;
+  rsi?: number;
+  macd?: number;
+  macdSignal?: number;
+  macdHistogram?: number;
+}
+
+interface WindowState {
+  values: number[];
+}
+
+interface EmaState {
+  count: number;
+  value: number; // Running sum until `period` closes are seen (SMA seed), then the EMA
+}
+
+interface RsiState {
+  count: number;
+  previous?: number;
+  avgGain: number;
+  avgLoss: number;
+}
+
+interface MacdState {
+  fast: EmaState;
+  slow: EmaState;
+  signal: EmaState;
+}
+
+export interface IndicatorState {
+  sma: WindowState;
+  ema: EmaState;
+  bollinger: WindowState;
+  rsi: RsiState;
+  macd: MacdState;
+}
+
+const createEmaState = (): EmaState => ({ count: 0, value: 0 });
+
+export const createIndicatorState = (): IndicatorState => ({
+  sma: { values: [] },
+  ema: createEmaState(),
+  bollinger: { values: [] },
+  rsi: { count: 0, avgGain: 0, avgLoss: 0 },
+  macd: { fast: createEmaState(), slow: createEmaState(), signal: createEmaState() }
+});
+
+const pushWindow = (state: WindowState, value: number, period: number): WindowState => {
+  const values = state.values.length >= period
+    ? [...state.values.slice(state.values.length - period + 1), value]
+    : [...state.values, value];
+  return { values };
+};
+
+export const smaStep = (state: WindowState, value: number, period: number): [WindowState, number | undefined] => {
+  const next = pushWindow(state, value, period);
+  if (next.values.length < period) {
+    return [next, undefined];
+  }
+  return [next, next.values.reduce((sum, v) => sum + v, 0) / period];
+};
+
+// EMA seeded with the SMA of the first `period` values
+export const emaStep = (state: EmaState, value: number, period: number): [EmaState, number | undefined] => {
+  const count = state.count + 1;
+  if (count < period) {
+    return [{ count, value: state.value + value }, undefined];
+  }
+  if (count === period) {
+    const seed = (state.value + value) / period;
+    return [{ count, value: seed }, seed];
+  }
+  const k = 2 / (period + 1);
+  const ema = value * k + state.value * (1 - k);
+  return [{ count, value: ema }, ema];
+};
+
+export const bollingerStep = (
+  state: WindowState,
+  value: number,
+  period: number,
+  stdDev: number
+): [WindowState, { upper: number; middle: number; lower: number } | undefined] => {
+  const next = pushWindow(state, value, period);
+  if (next.values.length < period) {
+    return [next, undefined];
+  }
+  const middle = next.values.reduce((sum, v) => sum + v, 0) / period;
+  const variance = next.values.reduce((sum, v) => sum + (v - middle) ** 2, 0) / period;
+  const deviation = Math.sqrt(variance) * stdDev;
+  return [next, { upper: middle + deviation, middle, lower: middle - deviation }];
+};
+
+// Wilder's RSI: simple average of the first `period` changes, then Wilder smoothing
+export const rsiStep = (state: RsiState, value: number, period: number): [RsiState, number | undefined] => {
+  if (state.previous === undefined) {
+    return [{ ...state, previous: value }, undefined];
+  }
+
+  const change = value - state.previous;
+  const gain = Math.max(change, 0);
+  const loss = Math.max(-change, 0);
+  const count = state.count + 1;
+
+  let avgGain: number;
+  let avgLoss: number;
+  if (count < period) {
+    return [{ count, previous: value, avgGain: state.avgGain + gain, avgLoss: state.avgLoss + loss }, undefined];
+  } else if (count === period) {
+    avgGain = (state.avgGain + gain) / period;
+    avgLoss = (state.avgLoss + loss) / period;
+  } else {
+    avgGain = (state.avgGain * (period - 1) + gain) / period;
+    avgLoss = (state.avgLoss * (period - 1) + loss) / period;
+  }
+
+  const rsi = avgLoss === 0 ? 100 : 100 - 100 / (1 + avgGain / avgLoss);
+  return [{ count, previous: value, avgGain, avgLoss }, rsi];
+};
+
+export const macdStep = (
+  state: MacdState,
+  value: number,
+  fastPeriod: number,
+  slowPeriod: number,
+  signalPeriod: number
+): [MacdState, { macd: number; signal?: number; histogram?: number } | undefined] => {
+  const [fast, fastValue] = emaStep(state.fast, value, fastPeriod);
+  const [slow, slowValue] = emaStep(state.slow, value, slowPeriod);
+  if (fastValue === undefined || slowValue === undefined) {
+    return [{ fast, slow, signal: state.signal }, undefined];
+  }
+
+  const macd = fastValue - slowValue;
+  const [signal, signalValue] = emaStep(state.signal, macd, signalPeriod);
+  return [
+    { fast, slow, signal },
+    { macd, signal: signalValue, histogram: signalValue === undefined ? undefined : macd - signalValue }
+  ];
+};
+
+// Advance every enabled indicator by one close
+export const stepIndicators = (
+  state: IndicatorState,
+  close: number,
+  settings: IndicatorSettings
+): { state: IndicatorState; point: IndicatorPoint } => {
+  const next: IndicatorState = { ...state };
+  const point: IndicatorPoint = {};
+
+  if (settings.sma.enabled) {
+    const [sma, value] = smaStep(state.sma, close, settings.sma.period);
+    next.sma = sma;
+    point.sma = value;
+  }
+
+  if (settings.ema.enabled) {
+    const [ema, value] = emaStep(state.ema, close, settings.ema.period);
+    next.ema = ema;
+    point.ema = value;
+  }
+
+  if (settings.bollinger.enabled) {
+    const [bollinger, bands] = bollingerStep(state.bollinger, close, settings.bollinger.period, settings.bollinger.stdDev);
+    next.bollinger = bollinger;
+    point.bbUpper = bands?.upper;
+    point.bbMiddle = bands?.middle;
+    point.bbLower = bands?.lower;
+  }
+
+  if (settings.rsi.enabled) {
+    const [rsi, value] = rsiStep(state.rsi, close, settings.rsi.period);
+    next.rsi = rsi;
+    point.rsi = value;
+  }
+
+  if (settings.macd.enabled) {
+    const [macd, value] = macdStep(state.macd, close, settings.macd.fast, settings.macd.slow, settings.macd.signal);
+    next.macd = macd;
+    point.macd = value?.macd;
+    point.macdSignal = value?.signal;
+    point.macdHistogram = value?.histogram;
+  }
+
+  return { state: next, point };
+};
+
+export const computeIndicators = (closes: number[], settings: IndicatorSettings): IndicatorPoint[] => {
+  let state = createIndicatorState();
+  return closes.map(close => {
+    const result = stepIndicators(state, close, settings);
+    state = result.state;
+    return result.point;
+  });
+};
+
+export interface IndicatorSeriesInput {
+  open_time: number;
+  close: number;
+}
+
+// Indicator values for a candle series plus what is needed to update it incrementally
+export interface IndicatorSeries {
+  settings: IndicatorSettings;
+  openTimes: number[];
+  closes: number[]; // The closes `points` were computed from
+  points: IndicatorPoint[];
+  committed: IndicatorState; // State after every candle except the last (still forming) one
+}
+
+const buildSeries = (data: IndicatorSeriesInput[], settings: IndicatorSettings): IndicatorSeries => {
+  let state = createIndicatorState();
+  let committed = state;
+  const points = data.map((candle, index) => {
+    if (index === data.length - 1) {
+      committed = state;
+    }
+    const result = stepIndicators(state, candle.close, settings);
+    state = result.state;
+    return result.point;
+  });
+
+  return {
+    settings,
+    openTimes: data.map(candle => candle.open_time),
+    closes: data.map(candle => candle.close),
+    points,
+    committed
+  };
+};
+
+// Whether the first `count` candles are the ones the series was computed from
+const samePrefix = (previous: IndicatorSeries, data: IndicatorSeriesInput[], count: number): boolean => {
+  for (let i = 0; i < count; i++) {
+    if (data[i].open_time !== previous.openTimes[i] || data[i].close !== previous.closes[i]) {
+      return false;
+    }
+  }
+  return true;
+};
+
+const sameSettings = (a: IndicatorSettings, b: IndicatorSettings): boolean => {
+  return JSON.stringify(a) === JSON.stringify(b);
+};
+
+/**
+ * Update indicator values for a new version of a candle series. The points always equal
+ * computeIndicators over the closes of `data`.
+ *
+ * Handles the two live cases without a full recompute: only the last candle changed
+ * (replay one step from `committed`), or a new candle was appended after the previous
+ * last one (commit the finished candle, then replay the new one). Every earlier candle
+ * must be unchanged, close included; anything else, such as a backfill replacing candles
+ * in the middle, the oldest candle dropping off or a different symbol, is recomputed.
+ */
+export const updateIndicatorSeries = (
+  previous: IndicatorSeries | null,
+  data: IndicatorSeriesInput[],
+  settings: IndicatorSettings
+): IndicatorSeries => {
+  const n = data.length;
+  if (!previous || n < 2 || previous.openTimes.length < 2 || !sameSettings(previous.settings, settings)) {
+    return buildSeries(data, settings);
+  }
+
+  const prevLength = previous.openTimes.length;
+  const prevLast = previous.openTimes[prevLength - 1];
+  const lastChanged = n === prevLength &&
+    data[n - 1].open_time === prevLast &&
+    samePrefix(previous, data, n - 1);
+  const appended = n === prevLength + 1 &&
+    data[n - 2].open_time === prevLast &&
+    samePrefix(previous, data, n - 2);
+
+  if (lastChanged) {
+    const { point } = stepIndicators(previous.committed, data[n - 1].close, settings);
+    return {
+      settings,
+      openTimes: previous.openTimes,
+      closes: [...previous.closes.slice(0, -1), data[n - 1].close],
+      points: [...previous.points.slice(0, -1), point],
+      committed: previous.committed
+    };
+  }
+
+  if (appended) {
+    const finished = stepIndicators(previous.committed, data[n - 2].close, settings);
+    const { point } = stepIndicators(finished.state, data[n - 1].close, settings);
+    return {
+      settings,
+      openTimes: data.map(candle => candle.open_time),
+      closes: data.map(candle => candle.close),
+      points: [...previous.points.slice(0, -1), finished.point, point],
+      committed: finished.state
+    };
+  }
+
+  return buildSeries(data, settings);
+};
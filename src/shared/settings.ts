@@ -0,0 +1,626 @@
+import { ChartSettings, Holding, Holdings, IndicatorSettings, PriceAlert, SymbolChartSettings, TimeframeId } from './types';
+import { CHART_CONFIG, TIMEFRAMES } from './config';
+import { normalizeSymbolId } from './symbols';
+import { CustomTheme, THEME_COLOR_KEYS, ThemeColors, isBuiltinThemeId } from './themes';
+
+/**
+ * The persisted settings document (settings.json in userData).
+ *
+ * Bump SETTINGS_VERSION whenever the shape changes and add a step to MIGRATIONS that turns
+ * a document of the previous version into the new one. Documents are migrated step by
+ * step on load, then validated field by field.
+ */
+export const SETTINGS_VERSION = 6;
+
+// 'system' (light or dark like the OS), a built-in theme id or the id of a custom theme
+export type ThemeSetting = string;
+
+export interface WindowBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A named watchlist tab, e.g. "Majors" or "Perps"
+export interface WatchlistGroup {
+  id: string;
+  name: string;
+  symbols: string[]; // Symbol ids in display order
+}
+
+// The groups of one window as the renderer gets them
+export type WindowGroups = Pick<WidgetWindowSettings, 'groups' | 'activeGroupId'>;
+
+// Longest group or theme name accepted
+export const MAX_NAME_LENGTH = 24;
+
+// One widget window; every window has its own watchlist groups, position and size
+export interface WidgetWindowSettings {
+  id: string;
+  groups: WatchlistGroup[]; // At least one; a symbol may be in several groups
+  activeGroupId: string; // The group whose symbols are shown
+  bounds: WindowBounds | null; // Last position and size; null lets the app place the window
+  lockSize: boolean; // Keep the user's size instead of fitting the window to its content
+}
+
+// 'floating' stays above normal windows, 'screen-saver' above full screen apps and the taskbar too
+export type AlwaysOnTopLevel = 'off' | 'floating' | 'screen-saver';
+
+export interface DisplaySettings {
+  chartHeight: number; // Price chart height in pixels
+  defaultTimeframe: TimeframeId; // Timeframe of symbols without a saved one
+  alwaysOnTop: AlwaysOnTopLevel;
+  opacity: number; // Window opacity, 0.3 to 1
+  backgroundOpacity: number; // Opacity of the theme background only, 0 to 1; text stays opaque
+}
+
+// Allowed ranges of the numeric display settings
+export const DISPLAY_LIMITS = {
+  MIN_CHART_HEIGHT: 120,
+  MAX_CHART_HEIGHT: 400,
+  MIN_OPACITY: 0.3,
+  MAX_OPACITY: 1,
+  MIN_BACKGROUND_OPACITY: 0,
+  MAX_BACKGROUND_OPACITY: 1,
+} as const;
+
+// Longest indicator period (SMA, EMA, Bollinger, RSI and MACD lengths) accepted
+export const MAX_INDICATOR_PERIOD = 500;
+
+export interface Settings {
+  version: number;
+  windows: WidgetWindowSettings[]; // At least one; the first is the main window
+  colors: { [symbolId: string]: string }; // Line/accent color per watched symbol, picked when it's added
+  defaultSymbols: string[]; // Symbols new widget windows start with, DEFAULT_WATCHLIST until changed
+  chart: ChartSettings; // Timeframe and indicators per symbol
+  alerts: PriceAlert[];
+  holdings: Holdings;
+  theme: ThemeSetting;
+  customThemes: CustomTheme[];
+  tickRecording: boolean;
+  display: DisplaySettings;
+}
+
+// Settings the renderer may change through 'update-settings'; the rest have their own handlers
+export interface SettingsUpdate {
+  display?: Partial<DisplaySettings>;
+  window?: Pick<Partial<WidgetWindowSettings>, 'lockSize'>; // Of the sending window; bounds are tracked by the main process
+  colors?: { [symbolId: string]: string }; // Merged into the stored colors
+  defaultSymbols?: string[];
+  theme?: ThemeSetting;
+  customThemes?: CustomTheme[];
+}
+
+const SETTINGS_UPDATE_KEYS = ['display', 'window', 'colors', 'defaultSymbols', 'theme', 'customThemes'];
+
+export interface SettingsUpdateResult {
+  ok: boolean;
+  errors: string[]; // Why the update was rejected, empty when ok
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  chartHeight: CHART_CONFIG.CHART_HEIGHT,
+  defaultTimeframe: CHART_CONFIG.DEFAULT_TIMEFRAME,
+  alwaysOnTop: 'screen-saver',
+  opacity: 1,
+  backgroundOpacity: 0.95,
+};
+
+export const MAIN_WINDOW_ID = 'main';
+
+// Watchlist of the main window on a fresh install
+export const DEFAULT_WATCHLIST = ['binance:BTCUSDT', 'binance:ETHUSDT'];
+
+// The group new windows start with, and that older single watchlists became
+export const DEFAULT_GROUP_ID = 'default';
+export const DEFAULT_GROUP_NAME = 'Watchlist';
+
+export const DEFAULT_SETTINGS: Settings = {
+  version: SETTINGS_VERSION,
+  windows: [{
+    id: MAIN_WINDOW_ID,
+    groups: [{ id: DEFAULT_GROUP_ID, name: DEFAULT_GROUP_NAME, symbols: DEFAULT_WATCHLIST }],
+    activeGroupId: DEFAULT_GROUP_ID,
+    bounds: null,
+    lockSize: false
+  }],
+  colors: {},
+  defaultSymbols: DEFAULT_WATCHLIST,
+  chart: {},
+  alerts: [],
+  holdings: {},
+  theme: 'dark',
+  customThemes: [],
+  tickRecording: false,
+  display: DEFAULT_DISPLAY_SETTINGS,
+};
+
+// Migration steps keyed by the version they upgrade from
+const MIGRATIONS: { [fromVersion: number]: (data: any) => any } = {
+  // 2 added display settings and the default symbols, which used to be hard-coded
+  1: (data) => ({ ...data, display: { ...DEFAULT_DISPLAY_SETTINGS }, defaultSymbols: [...DEFAULT_WATCHLIST] }),
+  // 3 added the window size lock
+  2: (data) => ({ ...data, window: { ...data.window, lockSize: false } }),
+  // 4 moved the watchlist and window geometry into a list of windows
+  3: ({ watchlist, window, ...data }) => ({
+    ...data,
+    windows: [{ id: MAIN_WINDOW_ID, watchlist: watchlist ?? DEFAULT_WATCHLIST, ...window }]
+  }),
+  // 5 split each window's watchlist into groups, starting with one holding the old list
+  4: (data) => ({
+    ...data,
+    windows: Array.isArray(data.windows)
+      ? data.windows.map(({ watchlist, ...window }: any) => ({
+        ...window,
+        groups: [{ id: DEFAULT_GROUP_ID, name: DEFAULT_GROUP_NAME, symbols: watchlist ?? [] }],
+        activeGroupId: DEFAULT_GROUP_ID
+      }))
+      : data.windows
+  }),
+  // 6 added custom themes and the background opacity
+  5: (data) => ({
+    ...data,
+    customThemes: [],
+    display: { ...data.display, backgroundOpacity: DEFAULT_DISPLAY_SETTINGS.backgroundOpacity }
+  }),
+};
+
+/** Every symbol of a window's groups, once each, in group then display order. */
+export const getWindowSymbols = (window: WidgetWindowSettings): string[] => {
+  const symbols: string[] = [];
+  window.groups.forEach(group => group.symbols.forEach(symbol => {
+    if (!symbols.includes(symbol)) {
+      symbols.push(symbol);
+    }
+  }));
+  return symbols;
+};
+
+/** A group or theme name as stored: trimmed, or null if empty or too long. */
+export const normalizeName = (name: unknown): string | null => {
+  if (typeof name !== 'string') {
+    return null;
+  }
+  const trimmed = name.trim();
+  return trimmed && trimmed.length <= MAX_NAME_LENGTH ? trimmed : null;
+};
+
+export const isValidHolding = (holding: unknown): holding is Holding => {
+  return isObject(holding) &&
+    typeof holding.quantity === 'number' && isFinite(holding.quantity) && holding.quantity > 0 &&
+    typeof holding.averageCost === 'number' && isFinite(holding.averageCost) && holding.averageCost >= 0;
+};
+
+export const isValidIndicatorSettings = (settings: unknown): settings is IndicatorSettings => {
+  const isPeriod = (value: unknown) => Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_INDICATOR_PERIOD;
+  const isToggle = (value: unknown): value is { [key: string]: unknown } => isObject(value) && typeof value.enabled === 'boolean';
+  if (!isObject(settings)) {
+    return false;
+  }
+  const { sma, ema, bollinger, rsi, macd } = settings;
+  return isToggle(sma) && isPeriod(sma.period) &&
+    isToggle(ema) && isPeriod(ema.period) &&
+    isToggle(bollinger) && isPeriod(bollinger.period) &&
+    typeof bollinger.stdDev === 'number' && bollinger.stdDev > 0 &&
+    isToggle(rsi) && isPeriod(rsi.period) &&
+    isToggle(macd) && isPeriod(macd.fast) && isPeriod(macd.slow) && isPeriod(macd.signal);
+};
+
+export const isValidAlert = (alert: unknown): alert is PriceAlert => {
+  if (!isObject(alert) || typeof alert.id !== 'string' || typeof alert.symbol !== 'string') {
+    return false;
+  }
+  if (alert.type === 'MOVE') {
+    return (alert.direction === 'UP' || alert.direction === 'DOWN' || alert.direction === 'BOTH') &&
+      typeof alert.percent === 'number' &&
+      typeof alert.windowSeconds === 'number' &&
+      typeof alert.cooldownSeconds === 'number';
+  }
+  return alert.type === 'LEVEL' &&
+    (alert.direction === 'ABOVE' || alert.direction === 'BELOW') &&
+    (alert.mode === 'ONCE' || alert.mode === 'REARM') &&
+    typeof alert.price === 'number' &&
+    typeof alert.hysteresisPercent === 'number' &&
+    typeof alert.armed === 'boolean';
+};
+
+const isValidColor = (color: unknown): color is string => typeof color === 'string' && /^#[0-9a-fA-F]{6}$/.test(color);
+
+const isValidBounds = (bounds: unknown): bounds is WindowBounds => {
+  return isObject(bounds) &&
+    ['x', 'y', 'width', 'height'].every(key => typeof bounds[key] === 'number' && isFinite(bounds[key] as number)) &&
+    (bounds.width as number) > 0 && (bounds.height as number) > 0;
+};
+
+const isValidThemeColors = (colors: unknown): colors is ThemeColors => {
+  return isObject(colors) && THEME_COLOR_KEYS.every(key => isValidColor(colors[key]));
+};
+
+const isInRange = (value: unknown, min: number, max: number): value is number => {
+  return typeof value === 'number' && isFinite(value) && value >= min && value <= max;
+};
+
+const isObject = (value: unknown): value is { [key: string]: unknown } => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+// The valid entries of a colors map, keyed by normalized symbol id
+const validateColors = (data: { [key: string]: unknown }, errors: string[]): { [symbolId: string]: string } => {
+  const colors: { [symbolId: string]: string } = {};
+  Object.keys(data).forEach(symbol => {
+    const color = data[symbol];
+    if (isValidColor(color)) {
+      colors[normalizeSymbolId(symbol)] = color;
+    } else {
+      errors.push(`colors.${symbol}: expected a #rrggbb color, got ${JSON.stringify(color)}`);
+    }
+  });
+  return colors;
+};
+
+const validateCustomThemes = (data: unknown[], errors: string[]): CustomTheme[] => {
+  const themes: CustomTheme[] = [];
+  data.forEach((theme, index) => {
+    const name = isObject(theme) ? normalizeName(theme.name) : null;
+    if (!isObject(theme) || typeof theme.id !== 'string' || !theme.id || isBuiltinThemeId(theme.id) ||
+      theme.id === 'system' || !name || !isValidThemeColors(theme.colors)) {
+      errors.push(`customThemes[${index}]: expected a theme with an id, a name and a #rrggbb color for each of ${THEME_COLOR_KEYS.join(', ')}`);
+    } else if (themes.some(t => t.id === theme.id)) {
+      errors.push(`customThemes[${index}].id: duplicate theme id ${JSON.stringify(theme.id)}`);
+    } else {
+      const themeColors = theme.colors;
+      const colors = {} as ThemeColors;
+      THEME_COLOR_KEYS.forEach(key => { colors[key] = themeColors[key]; });
+      themes.push({ id: theme.id, name, colors });
+    }
+  });
+  return themes;
+};
+
+// The valid display settings of `display`; absent and invalid ones are left out
+const validateDisplaySettings = (display: { [key: string]: unknown }, errors: string[]): Partial<DisplaySettings> => {
+  const settings: Partial<DisplaySettings> = {};
+  if (Number.isInteger(display.chartHeight) &&
+    isInRange(display.chartHeight, DISPLAY_LIMITS.MIN_CHART_HEIGHT, DISPLAY_LIMITS.MAX_CHART_HEIGHT)) {
+    settings.chartHeight = display.chartHeight;
+  } else if (display.chartHeight !== undefined) {
+    errors.push(`display.chartHeight: expected a whole number from ${DISPLAY_LIMITS.MIN_CHART_HEIGHT} to ${DISPLAY_LIMITS.MAX_CHART_HEIGHT}, got ${JSON.stringify(display.chartHeight)}`);
+  }
+  const timeframe = TIMEFRAMES.find(tf => tf.id === display.defaultTimeframe);
+  if (timeframe) {
+    settings.defaultTimeframe = timeframe.id;
+  } else if (display.defaultTimeframe !== undefined) {
+    errors.push(`display.defaultTimeframe: unknown timeframe ${JSON.stringify(display.defaultTimeframe)}`);
+  }
+  if (display.alwaysOnTop === 'off' || display.alwaysOnTop === 'floating' || display.alwaysOnTop === 'screen-saver') {
+    settings.alwaysOnTop = display.alwaysOnTop;
+  } else if (display.alwaysOnTop !== undefined) {
+    errors.push(`display.alwaysOnTop: expected "off", "floating" or "screen-saver", got ${JSON.stringify(display.alwaysOnTop)}`);
+  }
+  if (isInRange(display.opacity, DISPLAY_LIMITS.MIN_OPACITY, DISPLAY_LIMITS.MAX_OPACITY)) {
+    settings.opacity = display.opacity;
+  } else if (display.opacity !== undefined) {
+    errors.push(`display.opacity: expected a number from ${DISPLAY_LIMITS.MIN_OPACITY} to ${DISPLAY_LIMITS.MAX_OPACITY}, got ${JSON.stringify(display.opacity)}`);
+  }
+  if (isInRange(display.backgroundOpacity, DISPLAY_LIMITS.MIN_BACKGROUND_OPACITY, DISPLAY_LIMITS.MAX_BACKGROUND_OPACITY)) {
+    settings.backgroundOpacity = display.backgroundOpacity;
+  } else if (display.backgroundOpacity !== undefined) {
+    errors.push(`display.backgroundOpacity: expected a number from ${DISPLAY_LIMITS.MIN_BACKGROUND_OPACITY} to ${DISPLAY_LIMITS.MAX_BACKGROUND_OPACITY}, got ${JSON.stringify(display.backgroundOpacity)}`);
+  }
+  return settings;
+};
+
+// Normalized symbol ids of a list, once each; anything but a symbol id is reported
+const validateSymbolList = (data: unknown[], name: string, errors: string[]): string[] => {
+  const symbols: string[] = [];
+  data.forEach((symbol, index) => {
+    if (typeof symbol !== 'string' || !symbol) {
+      errors.push(`${name}[${index}]: expected a symbol id, got ${JSON.stringify(symbol)}`);
+    } else if (!symbols.includes(normalizeSymbolId(symbol))) {
+      symbols.push(normalizeSymbolId(symbol));
+    }
+  });
+  return symbols;
+};
+
+// A window entry, or null if it has no usable id; other invalid fields fall back to defaults
+const validateWindowSettings = (data: unknown, name: string, errors: string[]): WidgetWindowSettings | null => {
+  if (!isObject(data) || typeof data.id !== 'string' || !data.id) {
+    errors.push(`${name}: expected a window with an id`);
+    return null;
+  }
+
+  const window: WidgetWindowSettings = {
+    id: data.id,
+    groups: [{ id: DEFAULT_GROUP_ID, name: DEFAULT_GROUP_NAME, symbols: [] }],
+    activeGroupId: DEFAULT_GROUP_ID,
+    bounds: null,
+    lockSize: false
+  };
+
+  if (Array.isArray(data.groups)) {
+    const groups: WatchlistGroup[] = [];
+    data.groups.forEach((group: unknown, index: number) => {
+      const groupName = `${name}.groups[${index}]`;
+      const displayName = isObject(group) ? normalizeName(group.name) : null;
+      if (!isObject(group) || typeof group.id !== 'string' || !group.id || !displayName) {
+        errors.push(`${groupName}: expected a group with an id and a name of up to ${MAX_NAME_LENGTH} characters`);
+        return;
+      }
+      if (groups.some(g => g.id === group.id)) {
+        errors.push(`${groupName}.id: duplicate group id ${JSON.stringify(group.id)}`);
+        return;
+      }
+      let symbols: string[] = [];
+      if (Array.isArray(group.symbols)) {
+        symbols = validateSymbolList(group.symbols, `${groupName}.symbols`, errors);
+      } else if (group.symbols !== undefined) {
+        errors.push(`${groupName}.symbols: expected an array of symbol ids`);
+      }
+      groups.push({ id: group.id, name: displayName, symbols });
+    });
+    // A window always has a group to show
+    if (groups.length > 0) {
+      window.groups = groups;
+    }
+  } else if (data.groups !== undefined) {
+    errors.push(`${name}.groups: expected an array of groups`);
+  }
+
+  const activeGroup = window.groups.find(group => group.id === data.activeGroupId);
+  if (activeGroup) {
+    window.activeGroupId = activeGroup.id;
+  } else {
+    if (data.activeGroupId !== undefined) {
+      errors.push(`${name}.activeGroupId: unknown group ${JSON.stringify(data.activeGroupId)}`);
+    }
+    window.activeGroupId = window.groups[0].id;
+  }
+
+  if (data.bounds === null || isValidBounds(data.bounds)) {
+    window.bounds = data.bounds;
+  } else if (data.bounds !== undefined) {
+    errors.push(`${name}.bounds: expected {x, y, width, height}, got ${JSON.stringify(data.bounds)}`);
+  }
+
+  if (typeof data.lockSize === 'boolean') {
+    window.lockSize = data.lockSize;
+  } else if (data.lockSize !== undefined) {
+    errors.push(`${name}.lockSize: expected true or false`);
+  }
+
+  return window;
+};
+
+export interface SettingsValidation {
+  settings: Settings; // Valid fields as read, defaults for the rest
+  errors: string[]; // One readable message per rejected value, e.g. "windows[0].groups[1].symbols[2]: expected a symbol id"
+}
+
+/**
+ * Upgrade an older document to SETTINGS_VERSION. Documents from a newer app version are
+ * returned as is and reported, since their fields can't be trusted to mean the same thing.
+ */
+export const migrateSettings = (data: any): { data: any; errors: string[] } => {
+  if (!isObject(data)) {
+    return { data, errors: [] };
+  }
+
+  const version = typeof data.version === 'number' ? data.version : 0;
+  if (version > SETTINGS_VERSION) {
+    return { data, errors: [`version: ${version} is newer than supported version ${SETTINGS_VERSION}`] };
+  }
+
+  let migrated = data;
+  for (let from = version; from < SETTINGS_VERSION; from++) {
+    const step = MIGRATIONS[from];
+    if (step) {
+      migrated = step(migrated);
+    }
+  }
+  return { data: { ...migrated, version: SETTINGS_VERSION }, errors: [] };
+};
+
+/**
+ * Check a (migrated) document field by field. Invalid entries are dropped from collections
+ * and invalid scalars fall back to their default, each with an error message, so one bad
+ * value doesn't cost the user the whole document.
+ */
+export const validateSettings = (data: unknown): SettingsValidation => {
+  const errors: string[] = [];
+  const settings: Settings = {
+    ...DEFAULT_SETTINGS,
+    windows: DEFAULT_SETTINGS.windows.map(window => ({
+      ...window,
+      groups: window.groups.map(group => ({ ...group, symbols: [...group.symbols] }))
+    })),
+    display: { ...DEFAULT_SETTINGS.display }
+  };
+
+  if (!isObject(data)) {
+    return { settings, errors: ['settings: expected an object'] };
+  }
+
+  if (data.version !== SETTINGS_VERSION) {
+    errors.push(`version: expected ${SETTINGS_VERSION}, got ${JSON.stringify(data.version)}`);
+  }
+
+  if (Array.isArray(data.windows)) {
+    const windows: WidgetWindowSettings[] = [];
+    data.windows.forEach((entry: unknown, index: number) => {
+      const window = validateWindowSettings(entry, `windows[${index}]`, errors);
+      if (window && windows.some(w => w.id === window.id)) {
+        errors.push(`windows[${index}].id: duplicate window id ${JSON.stringify(window.id)}`);
+      } else if (window) {
+        windows.push(window);
+      }
+    });
+    // The main window always exists
+    if (windows.length > 0) {
+      settings.windows = windows;
+    }
+  } else if (data.windows !== undefined) {
+    errors.push('windows: expected an array');
+  }
+
+  if (isObject(data.colors)) {
+    settings.colors = validateColors(data.colors, errors);
+  } else if (data.colors !== undefined) {
+    errors.push('colors: expected an object');
+  }
+
+  if (Array.isArray(data.defaultSymbols)) {
+    settings.defaultSymbols = validateSymbolList(data.defaultSymbols, 'defaultSymbols', errors);
+  } else if (data.defaultSymbols !== undefined) {
+    errors.push('defaultSymbols: expected an array of symbol ids');
+  }
+
+  const chartData = data.chart;
+  if (isObject(chartData)) {
+    settings.chart = {};
+    Object.keys(chartData).forEach(symbol => {
+      const entry = chartData[symbol];
+      const chart: SymbolChartSettings = {};
+      if (!isObject(entry)) {
+        errors.push(`chart.${symbol}: expected an object`);
+        return;
+      }
+      if (entry.timeframe !== undefined) {
+        const timeframe = TIMEFRAMES.find(tf => tf.id === entry.timeframe);
+        if (timeframe) {
+          chart.timeframe = timeframe.id;
+        } else {
+          errors.push(`chart.${symbol}.timeframe: unknown timeframe ${JSON.stringify(entry.timeframe)}`);
+        }
+      }
+      if (entry.indicators !== undefined) {
+        if (isValidIndicatorSettings(entry.indicators)) {
+          chart.indicators = entry.indicators;
+        } else {
+          errors.push(`chart.${symbol}.indicators: invalid indicator settings`);
+        }
+      }
+      settings.chart[normalizeSymbolId(symbol)] = chart;
+    });
+  } else if (data.chart !== undefined) {
+    errors.push('chart: expected an object');
+  }
+
+  if (Array.isArray(data.alerts)) {
+    settings.alerts = [];
+    data.alerts.forEach((alert: unknown, index: number) => {
+      if (isValidAlert(alert)) {
+        settings.alerts.push({ ...alert, symbol: normalizeSymbolId(alert.symbol) });
+      } else {
+        errors.push(`alerts[${index}]: invalid alert ${JSON.stringify(alert)}`);
+      }
+    });
+  } else if (data.alerts !== undefined) {
+    errors.push('alerts: expected an array');
+  }
+
+  const holdingsData = data.holdings;
+  if (isObject(holdingsData)) {
+    settings.holdings = {};
+    Object.keys(holdingsData).forEach(symbol => {
+      const holding = holdingsData[symbol];
+      if (isValidHolding(holding)) {
+        settings.holdings[normalizeSymbolId(symbol)] = holding;
+      } else {
+        errors.push(`holdings.${symbol}: expected a positive quantity and a non-negative average cost`);
+      }
+    });
+  } else if (data.holdings !== undefined) {
+    errors.push('holdings: expected an object');
+  }
+
+  if (Array.isArray(data.customThemes)) {
+    settings.customThemes = validateCustomThemes(data.customThemes, errors);
+  } else if (data.customThemes !== undefined) {
+    errors.push('customThemes: expected an array');
+  }
+
+  if (typeof data.theme === 'string' &&
+    (data.theme === 'system' || isBuiltinThemeId(data.theme) || settings.customThemes.some(t => t.id === data.theme))) {
+    settings.theme = data.theme;
+  } else if (data.theme !== undefined) {
+    errors.push(`theme: expected "system", a built-in theme or a custom theme id, got ${JSON.stringify(data.theme)}`);
+  }
+
+  if (typeof data.tickRecording === 'boolean') {
+    settings.tickRecording = data.tickRecording;
+  } else if (data.tickRecording !== undefined) {
+    errors.push('tickRecording: expected true or false');
+  }
+
+  if (isObject(data.display)) {
+    settings.display = { ...settings.display, ...validateDisplaySettings(data.display, errors) };
+  } else if (data.display !== undefined) {
+    errors.push('display: expected an object');
+  }
+
+  return { settings, errors };
+};
+
+/**
+ * Check an 'update-settings' request from a renderer. Only the fields of SettingsUpdate are
+ * copied, each after its own check, so the request can't reach watchlists, bounds or other
+ * state that has dedicated handlers. Any error rejects the whole update.
+ */
+export const validateSettingsUpdate = (data: unknown): { update: SettingsUpdate; errors: string[] } => {
+  const update: SettingsUpdate = {};
+  if (!isObject(data)) {
+    return { update, errors: ['update: expected an object'] };
+  }
+
+  const errors: string[] = [];
+  Object.keys(data).filter(key => !SETTINGS_UPDATE_KEYS.includes(key)).forEach(key => {
+    errors.push(`${key}: can't be changed through a settings update`);
+  });
+
+  if (isObject(data.display)) {
+    update.display = validateDisplaySettings(data.display, errors);
+  } else if (data.display !== undefined) {
+    errors.push('display: expected an object');
+  }
+
+  if (isObject(data.window)) {
+    const { lockSize, ...rest } = data.window;
+    Object.keys(rest).forEach(key => errors.push(`window.${key}: can't be changed through a settings update`));
+    if (typeof lockSize === 'boolean') {
+      update.window = { lockSize };
+    } else if (lockSize !== undefined) {
+      errors.push('window.lockSize: expected true or false');
+    }
+  } else if (data.window !== undefined) {
+    errors.push('window: expected an object');
+  }
+
+  if (isObject(data.colors)) {
+    update.colors = validateColors(data.colors, errors);
+  } else if (data.colors !== undefined) {
+    errors.push('colors: expected an object');
+  }
+
+  if (Array.isArray(data.defaultSymbols)) {
+    update.defaultSymbols = validateSymbolList(data.defaultSymbols, 'defaultSymbols', errors);
+  } else if (data.defaultSymbols !== undefined) {
+    errors.push('defaultSymbols: expected an array of symbol ids');
+  }
+
+  // Whether the theme exists is checked against the merged custom themes
+  if (typeof data.theme === 'string') {
+    update.theme = data.theme;
+  } else if (data.theme !== undefined) {
+    errors.push('theme: expected a theme id');
+  }
+
+  if (Array.isArray(data.customThemes)) {
+    update.customThemes = validateCustomThemes(data.customThemes, errors);
+  } else if (data.customThemes !== undefined) {
+    errors.push('customThemes: expected an array');
+  }
+
+  return { update, errors };
+};
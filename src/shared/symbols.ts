@@ -0,0 +1,64 @@
+import { MarketSymbol, MarketType } from './types';
+
+/**
+ * Symbol ids are namespaced by market data provider: `<providerId>:<exchange symbol>`,
+ * e.g. `binance:BTCUSDT` (spot) or `binance-usdm:BTCUSDT` (USDⓈ-M perpetual).
+ *
+ * The main process implements each provider; this table only describes them so the
+ * renderer can label symbols without knowing anything about the exchange.
+ */
+export interface ProviderInfo {
+  id: string;
+  name: string;
+  marketType: MarketType;
+}
+
+export const PROVIDERS: { [providerId: string]: ProviderInfo } = {
+  'binance': { id: 'binance', name: 'Binance', marketType: 'SPOT' },
+  'binance-usdm': { id: 'binance-usdm', name: 'Binance USDⓈ-M', marketType: 'PERP' },
+};
+
+export const DEFAULT_PROVIDER_ID = 'binance';
+
+export const toSymbolId = (providerId: string, symbol: string): string => {
+  return `${providerId}:${symbol}`;
+};
+
+export const parseSymbolId = (id: string): { providerId: string; symbol: string } => {
+  const separator = id.indexOf(':');
+  if (separator === -1) {
+    return { providerId: DEFAULT_PROVIDER_ID, symbol: id };
+  }
+  return { providerId: id.slice(0, separator), symbol: id.slice(separator + 1) };
+};
+
+/**
+ * Normalize a symbol id coming from the renderer or from disk.
+ * Also migrates the pre-provider format, where perpetuals carried a PERP suffix
+ * (BTCUSDTPERP or BTCUSDT_PERP) and everything else was Binance spot.
+ */
+export const normalizeSymbolId = (id: string): string => {
+  if (id.includes(':')) {
+    const { providerId, symbol } = parseSymbolId(id);
+    return toSymbolId(providerId.toLowerCase(), symbol.toUpperCase());
+  }
+
+  const legacy = id.replace(/_/g, '').toUpperCase();
+  if (legacy.endsWith('PERP')) {
+    return toSymbolId('binance-usdm', legacy.slice(0, -'PERP'.length));
+  }
+  return toSymbolId(DEFAULT_PROVIDER_ID, legacy);
+};
+
+export const getProviderInfo = (id: string): ProviderInfo | undefined => {
+  return PROVIDERS[parseSymbolId(id).providerId];
+};
+
+export const getMarketType = (id: string): MarketType => {
+  return getProviderInfo(id)?.marketType || 'SPOT';
+};
+
+// Base asset from the exchange metadata; the plain exchange symbol until that is known
+export const getDisplayName = (id: string, info?: MarketSymbol): string => {
+  return info ? info.baseAsset : parseSymbolId(id).symbol;
+};
@@ -0,0 +1,167 @@
+/**
+ * Color themes. app.css only uses the CSS variables from getThemeVariables, which the
+ * renderer sets on the document root whenever the theme, the OS dark mode or the
+ * background opacity changes.
+ */
+
+// Every color is #rrggbb, so custom themes can be edited with color inputs
+export interface ThemeColors {
+  background: string; // Window background, drawn at the display's background opacity
+  panel: string; // Modals and popups
+  input: string; // Text fields and selects
+  border: string;
+  text: string;
+  secondaryText: string; // Labels and values next to the main text
+  mutedText: string; // Hints, loading and stale prices
+  button: string; // Header and window buttons
+  positive: string; // Price up, profit
+  negative: string; // Price down, loss, errors
+  warning: string;
+  info: string;
+  perpBadge: string; // Background of the PERP market badge
+}
+
+export type BuiltinThemeId = 'dark' | 'light' | 'high-contrast';
+
+export interface Theme {
+  id: string;
+  name: string;
+  colors: ThemeColors;
+}
+
+// Themes the user made; stored in settings
+export type CustomTheme = Theme;
+
+export const BUILTIN_THEMES: { [id in BuiltinThemeId]: Theme } = {
+  dark: {
+    id: 'dark',
+    name: 'Dark',
+    colors: {
+      background: '#1e1e1e',
+      panel: '#282828',
+      input: '#2a2a2a',
+      border: '#343434',
+      text: '#ffffff',
+      secondaryText: '#bbbbbb',
+      mutedText: '#888888',
+      button: '#666666',
+      positive: '#4CAF50',
+      negative: '#F44336',
+      warning: '#FFC107',
+      info: '#3498DB',
+      perpBadge: '#FF6B00',
+    },
+  },
+  light: {
+    id: 'light',
+    name: 'Light',
+    colors: {
+      background: '#f5f5f5',
+      panel: '#ffffff',
+      input: '#ffffff',
+      border: '#d0d0d0',
+      text: '#1e1e1e',
+      secondaryText: '#444444',
+      mutedText: '#777777',
+      button: '#b0b0b0',
+      positive: '#2E7D32',
+      negative: '#C62828',
+      warning: '#F57F17',
+      info: '#1565C0',
+      perpBadge: '#FF6B00',
+    },
+  },
+  'high-contrast': {
+    id: 'high-contrast',
+    name: 'High contrast',
+    colors: {
+      background: '#000000',
+      panel: '#000000',
+      input: '#000000',
+      border: '#ffffff',
+      text: '#ffffff',
+      secondaryText: '#ffffff',
+      mutedText: '#cccccc',
+      button: '#555555',
+      positive: '#00E676',
+      negative: '#FF5252',
+      warning: '#FFEA00',
+      info: '#40C4FF',
+      perpBadge: '#FF9100',
+    },
+  },
+};
+
+export const THEME_COLOR_KEYS = Object.keys(BUILTIN_THEMES.dark.colors) as (keyof ThemeColors)[];
+
+// The theme setting 'system' picks one of these from the OS dark mode
+export const SYSTEM_THEMES = { dark: BUILTIN_THEMES.dark, light: BUILTIN_THEMES.light };
+
+export const isBuiltinThemeId = (id: any): id is BuiltinThemeId => {
+  return typeof id === 'string' && Object.prototype.hasOwnProperty.call(BUILTIN_THEMES, id);
+};
+
+// Indicator lines keep their hues in every theme; darker shades stay readable on light backgrounds
+const INDICATOR_COLORS = {
+  dark: { sma: '#FFD54F', ema: '#64B5F6', bollinger: '#BA68C8', rsi: '#FFB74D', macd: '#4FC3F7', macdSignal: '#FF8A65' },
+  light: { sma: '#F9A825', ema: '#1E88E5', bollinger: '#8E24AA', rsi: '#EF6C00', macd: '#0288D1', macdSignal: '#E64A19' },
+};
+
+const toRgb = (color: string): [number, number, number] => {
+  const value = parseInt(color.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/** Whether a background is dark enough for light text (perceived brightness below half). */
+export const isDarkColor = (color: string): boolean => {
+  const [r, g, b] = toRgb(color);
+  return (r * 299 + g * 587 + b * 114) / 1000 < 128;
+};
+
+/**
+ * The theme to show for the theme setting: 'system', a built-in id or a custom theme id.
+ * Unknown ids (e.g. a deleted custom theme) fall back to the dark theme.
+ */
+export const resolveTheme = (setting: string, customThemes: CustomTheme[], systemDarkMode: boolean): Theme => {
+  if (setting === 'system') {
+    return systemDarkMode ? SYSTEM_THEMES.dark : SYSTEM_THEMES.light;
+  }
+  if (isBuiltinThemeId(setting)) {
+    return BUILTIN_THEMES[setting];
+  }
+  return customThemes.find(theme => theme.id === setting) || BUILTIN_THEMES.dark;
+};
+
+/** CSS variables of a theme, with the window background at `backgroundOpacity`. */
+export const getThemeVariables = (colors: ThemeColors, backgroundOpacity: number): { [name: string]: string } => {
+  const rgba = (color: string, alpha: number) => `rgba(${toRgb(color).join(', ')}, ${alpha})`;
+  const indicators = isDarkColor(colors.background) ? INDICATOR_COLORS.dark : INDICATOR_COLORS.light;
+  return {
+    '--bg': rgba(colors.background, backgroundOpacity),
+    '--panel': rgba(colors.panel, 0.98),
+    '--input': colors.input,
+    '--border': colors.border,
+    // Rows, hover states and scrollbars tint the background: lighter on dark themes, darker on light ones
+    '--overlay-rgb': isDarkColor(colors.background) ? '255, 255, 255' : '0, 0, 0',
+    '--text': colors.text,
+    '--text-secondary': colors.secondaryText,
+    '--text-muted': colors.mutedText,
+    '--button': colors.button,
+    '--positive': colors.positive,
+    '--negative': colors.negative,
+    '--warning': colors.warning,
+    '--info': colors.info,
+    // Status colors as r, g, b for tinted backgrounds such as the connection badge
+    '--positive-rgb': toRgb(colors.positive).join(', '),
+    '--negative-rgb': toRgb(colors.negative).join(', '),
+    '--warning-rgb': toRgb(colors.warning).join(', '),
+    '--info-rgb': toRgb(colors.info).join(', '),
+    '--perp-badge': colors.perpBadge,
+    '--indicator-sma': indicators.sma,
+    '--indicator-ema': indicators.ema,
+    '--indicator-bollinger': indicators.bollinger,
+    '--indicator-rsi': indicators.rsi,
+    '--indicator-macd': indicators.macd,
+    '--indicator-macd-signal': indicators.macdSignal,
+  };
+};
@@ -1,18 +1,70 @@
+import { Settings, SettingsUpdate, SettingsUpdateResult, WindowGroups } from './settings';
+
 export type MarketType = 'SPOT' | 'PERP';
 
 export interface PriceData {
-  symbol: string;
+  symbol: string; // Namespaced symbol id
   price: string;
   priceChangePercent: string;
   timestamp: number;
   marketType?: MarketType;
+  volume?: string; // Rolling 24h base asset volume
+  quoteVolume?: string; // Rolling 24h quote asset volume
 }
 
 export interface PriceHistoryPoint {
   open_time: number; // Open time
   timestamp: number;
-  price: number;
+  price: number; // Latest price in the bucket, same as close
   time: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // Base asset volume
+  quoteVolume: number; // Quote asset volume
+}
+
+// Whether recorded ticks are being replayed instead of live streams
+export interface ReplayState {
+  active: boolean;
+  speed: number; // Multiple of the recorded pace
+}
+
+// A live candle from a kline stream, forwarded on 'kline-update'
+export interface KlineUpdate {
+  symbol: string; // Namespaced symbol id
+  interval: string;
+  point: PriceHistoryPoint;
+  closed: boolean; // False while the candle is still forming
+}
+
+// A kline stream the renderer wants for a charted symbol
+export interface KlineStreamRequest {
+  symbol: string; // Namespaced symbol id
+  interval: string;
+}
+
+export type ChartMode = 'line' | 'candle';
+
+export type TimeframeId = '1H' | '6H' | '24H' | '7D' | '30D';
+
+export interface IndicatorSettings {
+  sma: { enabled: boolean; period: number };
+  ema: { enabled: boolean; period: number };
+  bollinger: { enabled: boolean; period: number; stdDev: number };
+  rsi: { enabled: boolean; period: number };
+  macd: { enabled: boolean; fast: number; slow: number; signal: number };
+}
+
+// Chart preferences remembered per symbol
+export interface SymbolChartSettings {
+  timeframe?: TimeframeId;
+  indicators?: IndicatorSettings;
+}
+
+export interface ChartSettings {
+  [symbol: string]: SymbolChartSettings;
 }
 
 export interface CoinPrice {
@@ -23,15 +75,167 @@ export interface CoinHistory {
   [symbol: string]: PriceHistoryPoint[];
 }
 
+export interface Holding {
+  quantity: number;
+  averageCost: number; // Average cost per unit, in the quote asset
+}
+
+export interface Holdings {
+  [symbol: string]: Holding;
+}
+
 export interface WindowMessage {
   type: 'PRICE_UPDATE';
   payload: CoinPrice;
 }
 
-export interface BinanceSymbol {
-  symbol: string;
+// State of a provider's live stream connection
+export type ConnectionState = 'connecting' | 'connected' | 'stale' | 'reconnecting';
+
+// Connection state per provider id, for providers that have an open stream
+export interface ConnectionStates {
+  [providerId: string]: ConnectionState;
+}
+
+export interface MarketSymbol {
+  id: string; // Namespaced symbol id, e.g. binance:BTCUSDT
+  symbol: string; // Symbol as the exchange names it
+  providerId: string;
   baseAsset: string;
   quoteAsset: string;
   status: string;
   marketType: MarketType;
-}
\ No newline at end of file
+  pricePrecision?: number; // Decimals of the exchange tick size, e.g. 8 for a 0.00000001 tick
+}
+
+// Exchange metadata of the watched symbols, keyed by symbol id
+export interface SymbolInfoMap {
+  [symbolId: string]: MarketSymbol;
+}
+
+export type AlertType = 'LEVEL' | 'MOVE';
+
+export type AlertDirection = 'ABOVE' | 'BELOW';
+
+export type MoveDirection = 'UP' | 'DOWN' | 'BOTH';
+
+// ONCE alerts disarm permanently after firing, REARM alerts arm again once
+// the price moves back out of the hysteresis band around the level
+export type AlertMode = 'ONCE' | 'REARM';
+
+interface AlertBase {
+  id: string;
+  symbol: string;
+  createdAt: number;
+  lastTriggeredAt?: number;
+}
+
+// Fires when the price crosses a fixed level
+export interface LevelAlert extends AlertBase {
+  type: 'LEVEL';
+  direction: AlertDirection;
+  price: number;
+  mode: AlertMode;
+  hysteresisPercent: number;
+  armed: boolean;
+}
+
+// Fires when the price moves by at least `percent` within a rolling window
+export interface MoveAlert extends AlertBase {
+  type: 'MOVE';
+  direction: MoveDirection;
+  percent: number;
+  windowSeconds: number;
+  cooldownSeconds: number;
+}
+
+export type PriceAlert = LevelAlert | MoveAlert;
+
+export type NewPriceAlert =
+  | Omit<LevelAlert, 'id' | 'createdAt' | 'lastTriggeredAt' | 'armed'>
+  | Omit<MoveAlert, 'id' | 'createdAt' | 'lastTriggeredAt'>;
+
+// A price tick as delivered to the renderers
+export interface PriceUpdate {
+  symbol: string; // Namespaced symbol id
+  data: PriceData;
+}
+
+export interface WindowSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * The IPC contract between the renderers and the main process. The preload script only
+ * forwards the channels listed here, and both sides are typed from these maps.
+ */
+
+// Request/response channels, answered by the main process
+export interface InvokeChannels {
+  'get-settings': { args: []; result: Settings };
+  'get-system-dark-mode': { args: []; result: boolean };
+  'update-settings': { args: [update: SettingsUpdate]; result: SettingsUpdateResult };
+  'get-watched-symbols': { args: []; result: string[] };
+  'add-symbol': { args: [symbolId: string, groupId?: string | null]; result: boolean };
+  'remove-symbol': { args: [symbolId: string, groupId?: string | null]; result: boolean };
+  'reorder-symbols': { args: [symbolIds: string[], groupId?: string | null]; result: WindowGroups | null };
+  'get-watchlist-groups': { args: []; result: WindowGroups | null };
+  'add-watchlist-group': { args: [name: string]; result: WindowGroups | null };
+  'rename-watchlist-group': { args: [groupId: string, name: string]; result: WindowGroups | null };
+  'remove-watchlist-group': { args: [groupId: string]; result: WindowGroups | null };
+  'set-active-watchlist-group': { args: [groupId: string]; result: WindowGroups | null };
+  'get-chart-settings': { args: []; result: ChartSettings };
+  'set-chart-timeframe': { args: [symbolId: string, timeframe: TimeframeId]; result: boolean };
+  'set-chart-indicators': { args: [symbolId: string, indicators: IndicatorSettings]; result: boolean };
+  'get-holdings': { args: []; result: Holdings };
+  'set-holding': { args: [symbolId: string, holding: Holding | null]; result: boolean }; // null clears it
+  'get-alerts': { args: []; result: PriceAlert[] };
+  'add-alert': { args: [input: NewPriceAlert]; result: PriceAlert | null };
+  'remove-alert': { args: [id: string]; result: boolean };
+  'get-market-symbols': { args: []; result: MarketSymbol[] };
+  'get-symbol-info': { args: []; result: SymbolInfoMap };
+  'get-cached-history': { args: [symbolId: string, interval: string, startTime: number, limit: number]; result: PriceHistoryPoint[] };
+  'get-history': { args: [symbolId: string, interval: string, startTime: number, limit: number]; result: PriceHistoryPoint[] };
+  'set-kline-streams': { args: [requests: KlineStreamRequest[]]; result: boolean };
+  'get-replay-state': { args: []; result: ReplayState };
+  'get-connection-state': { args: []; result: ConnectionStates };
+  'reconnect-websocket': { args: []; result: boolean };
+}
+
+// One-way messages to the main process
+export interface SendChannels {
+  'close-app': [];
+  'minimize-app': [];
+  'resize-window': [size: WindowSize];
+}
+
+// Messages the main process pushes to the renderers
+export interface EventChannels {
+  'price-update': [update: PriceUpdate];
+  'kline-update': [update: KlineUpdate];
+  'history-gap': [symbolIds: string[]]; // Symbols whose ticks were missed while disconnected
+  'symbol-info-updated': [symbolInfo: SymbolInfoMap];
+  'alerts-updated': [alerts: PriceAlert[]];
+  'holdings-updated': [holdings: Holdings];
+  'chart-settings-updated': [chartSettings: ChartSettings];
+  'replay-state': [state: ReplayState];
+  'connection-state': [states: ConnectionStates];
+  'settings-updated': [settings: Settings];
+  'system-dark-mode-updated': [darkMode: boolean];
+  'open-settings': [];
+}
+
+export type InvokeChannel = keyof InvokeChannels;
+export type InvokeArgs<C extends InvokeChannel> = InvokeChannels[C]['args'];
+export type InvokeResult<C extends InvokeChannel> = InvokeChannels[C]['result'];
+export type SendChannel = keyof SendChannels;
+export type EventChannel = keyof EventChannels;
+
+// What the preload script exposes to the renderer as window.widgetApi
+export interface WidgetApi {
+  invoke<C extends InvokeChannel>(channel: C, ...args: InvokeArgs<C>): Promise<InvokeResult<C>>;
+  send<C extends SendChannel>(channel: C, ...args: SendChannels[C]): void;
+  // Returns a function that removes the listener
+  on<C extends EventChannel>(channel: C, listener: (...args: EventChannels[C]) => void): () => void;
+}
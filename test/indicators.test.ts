@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { IndicatorSettings } from '../src/shared/types';
+import {
+  IndicatorSeries, IndicatorSeriesInput, bollingerStep, computeIndicators, createIndicatorState, emaStep, macdStep,
+  rsiStep, smaStep, updateIndicatorSeries
+} from '../src/shared/indicators';
+
+const ALL_ENABLED: IndicatorSettings = {
+  sma: { enabled: true, period: 20 },
+  ema: { enabled: true, period: 50 },
+  bollinger: { enabled: true, period: 20, stdDev: 2 },
+  rsi: { enabled: true, period: 14 },
+  macd: { enabled: true, fast: 12, slow: 26, signal: 9 },
+};
+
+// Fold a step function over values, collecting the outputs
+const run = <S, V>(initial: S, values: number[], step: (state: S, value: number) => [S, V]): V[] => {
+  let state = initial;
+  return values.map(value => {
+    const [next, output] = step(state, value);
+    state = next;
+    return output;
+  });
+};
+
+const round = (value: number | undefined, digits: number) => (value === undefined ? undefined : Number(value.toFixed(digits)));
+
+const assertClose = (actual: number | undefined, expected: number) => {
+  assert.ok(actual !== undefined && Math.abs(actual - expected) < 1e-9, `expected ${expected}, got ${actual}`);
+};
+
+const ramp = (length: number) => Array.from({ length }, (_, i) => i);
+
+test('SMA averages the last `period` closes', () => {
+  const values = run(createIndicatorState().sma, [1, 2, 3, 4, 5, 6], (state, value) => smaStep(state, value, 3));
+  assert.deepEqual(values, [undefined, undefined, 2, 3, 4, 5]);
+});
+
+test('EMA is seeded with the SMA of the first `period` closes', () => {
+  // k = 2 / (3 + 1) = 0.5
+  const values = run(createIndicatorState().ema, [1, 2, 3, 4, 8], (state, value) => emaStep(state, value, 3));
+  assert.deepEqual(values, [undefined, undefined, 2, 3, 5.5]);
+});
+
+test('Bollinger bands use the population standard deviation', () => {
+  // Mean 5 and standard deviation 2
+  const values = run(createIndicatorState().bollinger, [2, 4, 4, 4, 5, 5, 7, 9], (state, value) => bollingerStep(state, value, 8, 2));
+  assert.deepEqual(values[7], { upper: 9, middle: 5, lower: 1 });
+  assert.equal(values[6], undefined);
+});
+
+test("RSI averages the first `period` changes, then applies Wilder's smoothing", () => {
+  // Changes +1, -0.5, +1, -0.5. Average gain/loss: 0.5/0.25, then 0.75/0.125, then 0.375/0.3125
+  const values = run(createIndicatorState().rsi, [1, 2, 1.5, 2.5, 2], (state, value) => rsiStep(state, value, 2));
+  assert.deepEqual(values.map(value => round(value, 4)), [undefined, undefined, 66.6667, 85.7143, 54.5455]);
+});
+
+test('RSI is 100 without losses', () => {
+  const values = run(createIndicatorState().rsi, ramp(20), (state, value) => rsiStep(state, value, 14));
+  assert.equal(values[14], 100);
+});
+
+test('MACD of a steady ramp is the lag difference of its EMAs', () => {
+  // An SMA-seeded EMA of closes rising by 1 trails them by (period - 1) / 2: MACD(12, 26) = 12.5 - 5.5
+  const values = run(createIndicatorState().macd, ramp(60), (state, value) => macdStep(state, value, 12, 26, 9));
+  assert.equal(values[24], undefined);
+  assert.deepEqual(values[25], { macd: 7, signal: undefined, histogram: undefined });
+  [33, 59].forEach(index => {
+    assertClose(values[index]?.macd, 7);
+    assertClose(values[index]?.signal, 7);
+    assertClose(values[index]?.histogram, 0);
+  });
+});
+
+test('computeIndicators only fills enabled indicators', () => {
+  const settings: IndicatorSettings = { ...ALL_ENABLED, sma: { enabled: true, period: 3 }, ema: { enabled: false, period: 3 } };
+  const points = computeIndicators([1, 2, 3], settings);
+  assert.equal(points[2].sma, 2);
+  assert.equal(points[2].ema, undefined);
+});
+
+// Deterministic pseudo-random walk of candles, one minute apart
+const createCandles = (count: number, seed: number): IndicatorSeriesInput[] => {
+  let state = seed;
+  let close = 100;
+  return Array.from({ length: count }, (_, i) => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    close = Math.max(1, close + (state / 2147483648 - 0.5) * 4);
+    return { open_time: i * 60000, close };
+  });
+};
+
+// Feeds each version of the series through updateIndicatorSeries and compares with a full recompute
+const assertMatchesRecompute = (versions: IndicatorSeriesInput[][]) => {
+  let series: IndicatorSeries | null = null;
+  versions.forEach((data, index) => {
+    series = updateIndicatorSeries(series, data, ALL_ENABLED);
+    assert.deepEqual(series.points, computeIndicators(data.map(candle => candle.close), ALL_ENABLED), `version ${index}`);
+  });
+};
+
+test('updateIndicatorSeries follows ticks on the forming candle', () => {
+  const candles = createCandles(120, 1);
+  assertMatchesRecompute([0.5, -1, 2, 0].map(delta => [
+    ...candles.slice(0, -1),
+    { ...candles[candles.length - 1], close: candles[candles.length - 1].close + delta }
+  ]));
+});
+
+test('updateIndicatorSeries follows appended candles', () => {
+  const candles = createCandles(120, 2);
+  assertMatchesRecompute([100, 101, 102, 110, 120].map(length => candles.slice(0, length)));
+});
+
+test('updateIndicatorSeries recomputes after a backfill changes earlier candles', () => {
+  const candles = createCandles(120, 3);
+  const backfilled = candles.map((candle, i) => (i >= 40 && i < 50 ? { ...candle, close: candle.close * 1.01 } : candle));
+  const corrected = candles.map((candle, i) => (i === 118 ? { ...candle, close: candle.close + 1 } : candle));
+  assertMatchesRecompute([candles, backfilled, candles, corrected]);
+});
+
+test('updateIndicatorSeries recomputes when the oldest candle drops off', () => {
+  const candles = createCandles(130, 4);
+  assertMatchesRecompute([0, 1, 2, 3].map(offset => candles.slice(offset, offset + 120)));
+});
@@ -0,0 +1,163 @@
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { WebSocket, WebSocketServer } from 'ws';
+import type { MarketDataProvider, StreamEvent } from '../src/main/providers';
+
+// Both Binance providers run against one local server standing in for the REST and stream
+// hosts, reached through the COINWIDGET_* endpoint overrides
+
+const priceFilter = (tickSize: string) => ({ filterType: 'PRICE_FILTER', minPrice: tickSize, maxPrice: '1000000', tickSize });
+
+const EXCHANGE_INFO: { [path: string]: object } = {
+  '/api/v3/exchangeInfo': {
+    symbols: [
+      { symbol: 'BTCUSDT', status: 'TRADING', baseAsset: 'BTC', quoteAsset: 'USDT', filters: [priceFilter('0.01000000')] },
+      { symbol: 'ETHBTC', status: 'TRADING', baseAsset: 'ETH', quoteAsset: 'BTC', filters: [priceFilter('0.00001000')] },
+      { symbol: 'LUNAUSDT', status: 'BREAK', baseAsset: 'LUNA', quoteAsset: 'USDT', filters: [priceFilter('0.00010000')] }
+    ]
+  },
+  '/fapi/v1/exchangeInfo': {
+    symbols: [
+      { symbol: 'BTCUSDT', status: 'TRADING', contractType: 'PERPETUAL', baseAsset: 'BTC', quoteAsset: 'USDT', filters: [priceFilter('0.10')] },
+      { symbol: 'BTCUSDT_251226', status: 'TRADING', contractType: 'CURRENT_QUARTER', baseAsset: 'BTC', quoteAsset: 'USDT', filters: [priceFilter('0.10')] }
+    ]
+  }
+};
+
+// [open time, open, high, low, close, volume, close time, quote volume, trades, taker base, taker quote, ignore]
+const KLINES = [
+  [1700000000000, '100.00', '110.00', '95.00', '105.00', '12.5', 1700000059999, '1300.00', 42, '6.0', '630.00', '0'],
+  [1700000060000, '105.00', '106.00', '101.00', '102.50', '3.25', 1700000119999, '335.00', 17, '1.0', '103.00', '0']
+];
+
+let server: http.Server;
+let wss: WebSocketServer;
+let baseUrl = '';
+const klineRequests: string[] = [];
+const subscriptions: { [path: string]: unknown[] } = {};
+
+before(async () => {
+  server = http.createServer((request, response) => {
+    const url = new URL(request.url || '/', 'http://localhost');
+    if (EXCHANGE_INFO[url.pathname]) {
+      response.end(JSON.stringify(EXCHANGE_INFO[url.pathname]));
+    } else if (url.pathname.endsWith('/klines')) {
+      klineRequests.push(`${url.pathname}${url.search}`);
+      response.end(JSON.stringify(KLINES));
+    } else {
+      response.statusCode = 404;
+      response.end();
+    }
+  });
+
+  // Acknowledges a subscription, then sends a ticker for every subscribed stream
+  wss = new WebSocketServer({ server });
+  wss.on('connection', (socket, request) => {
+    socket.on('message', data => {
+      const message = JSON.parse(data.toString());
+      subscriptions[request.url || ''] = message.params;
+      socket.send(JSON.stringify({ result: null, id: message.id }));
+      message.params.forEach((stream: string) => {
+        socket.send(JSON.stringify({
+          e: '24hrTicker', E: 1700000000000, s: stream.split('@')[0].toUpperCase(), c: '43210.50', P: '-1.25', v: '1234.5', q: '53300000.0'
+        }));
+      });
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  baseUrl = `127.0.0.1:${port}`;
+  process.env.COINWIDGET_BINANCE_REST_URL = `http://${baseUrl}/api/v3`;
+  process.env.COINWIDGET_BINANCE_STREAM_URL = `ws://${baseUrl}/ws`;
+  process.env.COINWIDGET_BINANCE_USDM_REST_URL = `http://${baseUrl}/fapi/v1`;
+  process.env.COINWIDGET_BINANCE_USDM_STREAM_URL = `ws://${baseUrl}/fws`;
+});
+
+after(async () => {
+  wss.clients.forEach(client => client.terminate());
+  await new Promise(resolve => wss.close(resolve));
+  await new Promise(resolve => server.close(resolve));
+});
+
+// The endpoints are read when the providers module loads, so it is loaded after the server is up
+const loadProvider = async (providerId: string): Promise<MarketDataProvider> => {
+  const { getProvider } = await import('../src/main/providers');
+  const provider = getProvider(providerId);
+  assert.ok(provider, `${providerId} is registered`);
+  return provider;
+};
+
+// Subscribes to tickers of `symbols` and collects stream events until one ticker per symbol arrived
+const streamTickers = (provider: MarketDataProvider, symbols: string[]): Promise<StreamEvent[]> => {
+  return new Promise((resolve, reject) => {
+    const events: StreamEvent[] = [];
+    const socket = new WebSocket(provider.getStreamUrl());
+    socket.on('open', () => socket.send(provider.buildSubscribeMessage(symbols, 7)));
+    socket.on('message', data => {
+      const event = provider.parseStreamMessage(data.toString());
+      if (event) {
+        events.push(event);
+      }
+      if (events.filter(e => e.type === 'ticker').length === symbols.length) {
+        socket.close();
+        resolve(events);
+      }
+    });
+    socket.on('error', reject);
+  });
+};
+
+test('spot fetchSymbols lists trading symbols with their tick size precision', async () => {
+  const provider = await loadProvider('binance');
+  const symbols = await provider.fetchSymbols();
+  assert.deepEqual(symbols.map(symbol => [symbol.id, symbol.quoteAsset, symbol.marketType, symbol.pricePrecision]), [
+    ['binance:BTCUSDT', 'USDT', 'SPOT', 2],
+    ['binance:ETHBTC', 'BTC', 'SPOT', 5]
+  ]);
+});
+
+test('USDⓈ-M fetchSymbols lists perpetual contracts only', async () => {
+  const provider = await loadProvider('binance-usdm');
+  const symbols = await provider.fetchSymbols();
+  assert.deepEqual(symbols.map(symbol => [symbol.id, symbol.baseAsset, symbol.marketType, symbol.pricePrecision]), [
+    ['binance-usdm:BTCUSDT', 'BTC', 'PERP', 1]
+  ]);
+});
+
+test('fetchKlines requests the range from each host and converts the candles', async () => {
+  for (const [providerId, path] of [['binance', '/api/v3/klines'], ['binance-usdm', '/fapi/v1/klines']]) {
+    const provider = await loadProvider(providerId);
+    const points = await provider.fetchKlines('BTCUSDT', '1m', 1700000000000, 2);
+    assert.equal(klineRequests.pop(), `${path}?symbol=BTCUSDT&interval=1m&startTime=1700000000000&limit=2`);
+    assert.equal(points.length, 2);
+    // time is formatted in the local time zone
+    assert.deepEqual({ ...points[0], time: undefined }, {
+      open_time: 1700000000000,
+      timestamp: 1700000060000, // Close time + 1ms
+      price: 105,
+      time: undefined,
+      open: 100,
+      high: 110,
+      low: 95,
+      close: 105,
+      volume: 12.5,
+      quoteVolume: 1300
+    });
+  }
+});
+
+test('ticker streams are subscribed and parsed for both providers', async () => {
+  for (const [providerId, path] of [['binance', '/ws'], ['binance-usdm', '/fws']]) {
+    const provider = await loadProvider(providerId);
+    const events = await streamTickers(provider, ['BTCUSDT', 'ETHUSDT']);
+    assert.deepEqual(subscriptions[path], ['btcusdt@ticker', 'ethusdt@ticker']);
+    assert.deepEqual(events, [
+      { type: 'ack', requestId: 7 },
+      { type: 'ticker', symbol: 'BTCUSDT', price: '43210.50', priceChangePercent: '-1.25', volume: '1234.5', quoteVolume: '53300000.0' },
+      { type: 'ticker', symbol: 'ETHUSDT', price: '43210.50', priceChangePercent: '-1.25', volume: '1234.5', quoteVolume: '53300000.0' }
+    ]);
+  }
+});
@@ -36,11 +36,35 @@ module.exports = [
       extensions: ['.ts', '.js']
     }
   },
-  // Renderer process configuration
+  // Preload script configuration (the renderer's typed bridge to the main process)
+  {
+    mode: 'development',
+    entry: './src/main/preload.ts',
+    target: 'electron-preload',
+    devtool: 'source-map',
+    module: {
+      rules: [
+        {
+          test: /\.ts$/,
+          include: /src/,
+          use: [{ loader: 'ts-loader' }]
+        }
+      ]
+    },
+    output: {
+      path: path.resolve(__dirname, 'dist'),
+      filename: 'preload.js'
+    },
+    resolve: {
+      extensions: ['.ts', '.js']
+    }
+  },
+  // Renderer process configuration; it has no Node access and talks to the main process
+  // through the preload script only
   {
     mode: 'development',
     entry: './src/renderer/index.tsx',
-    target: 'electron-renderer',
+    target: 'web',
     devtool: 'source-map',
     module: {
       rules: [